@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "wallet_snapshots" (
+    "id" TEXT NOT NULL,
+    "wallet_id" TEXT NOT NULL,
+    "owners" TEXT[],
+    "threshold" INTEGER NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "version" TEXT,
+    "master_copy" TEXT,
+    "guard" TEXT,
+    "fallback_handler" TEXT,
+    "fetched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "wallet_snapshots_wallet_id_fetched_at_idx" ON "wallet_snapshots"("wallet_id", "fetched_at");
+
+-- AddForeignKey
+ALTER TABLE "wallet_snapshots" ADD CONSTRAINT "wallet_snapshots_wallet_id_fkey" FOREIGN KEY ("wallet_id") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
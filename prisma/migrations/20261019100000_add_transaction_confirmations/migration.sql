@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "transaction_confirmations" (
+    "id" TEXT NOT NULL,
+    "wallet_id" TEXT NOT NULL,
+    "safe_tx_hash" TEXT NOT NULL,
+    "tx_hash" TEXT,
+    "nonce" INTEGER NOT NULL,
+    "owner" TEXT NOT NULL,
+    "confirmed_at" TIMESTAMP(3) NOT NULL,
+    "executed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transaction_confirmations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transaction_confirmations_owner_confirmed_at_idx" ON "transaction_confirmations"("owner", "confirmed_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_confirmations_wallet_id_safe_tx_hash_owner_key" ON "transaction_confirmations"("wallet_id", "safe_tx_hash", "owner");
+
+-- AddForeignKey
+ALTER TABLE "transaction_confirmations" ADD CONSTRAINT "transaction_confirmations_wallet_id_fkey" FOREIGN KEY ("wallet_id") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "signer_addresses" ADD COLUMN     "activity_checked_at" TIMESTAMP(3),
+ADD COLUMN     "last_outgoing_nonce" INTEGER,
+ADD COLUMN     "last_outgoing_tx_at" TIMESTAMP(3);
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "safe_api_cache" (
+    "key" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "body" JSONB NOT NULL,
+    "fetched_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "safe_api_cache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "safe_api_cache_endpoint_idx" ON "safe_api_cache"("endpoint");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'viewer';
+
+-- Existing admins keep full access
+UPDATE "users" SET "role" = 'admin' WHERE "is_admin" = true;
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "is_admin";
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "address" TEXT,
+ADD COLUMN "signer_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_address_key" ON "users"("address");
+
+-- CreateTable
+CREATE TABLE "auth_nonces" (
+    "nonce" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+
+    CONSTRAINT "auth_nonces_pkey" PRIMARY KEY ("nonce")
+);
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_signer_id_fkey" FOREIGN KEY ("signer_id") REFERENCES "signers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "entity_versions" (
+    "id" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "actor" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "entity_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entity_versions_entity_type_entity_id_version_key" ON "entity_versions"("entity_type", "entity_id", "version");
+
+-- Backfill: current values become version 1
+INSERT INTO "entity_versions" ("id", "entity_type", "entity_id", "version", "data", "created_at")
+SELECT gen_random_uuid()::text, 'wallet', "id", 1,
+       jsonb_build_object('name', "name", 'chainId', "chain_id", 'tag', "tag"), "updated_at"
+FROM "wallets";
+
+INSERT INTO "entity_versions" ("id", "entity_type", "entity_id", "version", "data", "created_at")
+SELECT gen_random_uuid()::text, 'signer', "id", 1,
+       jsonb_build_object('name', "name", 'department', "department"), "updated_at"
+FROM "signers";
+
+INSERT INTO "entity_versions" ("id", "entity_type", "entity_id", "version", "data", "created_at")
+SELECT gen_random_uuid()::text, 'signer_address', "id", 1,
+       jsonb_build_object('name', "name", 'type', "type"), "updated_at"
+FROM "signer_addresses";
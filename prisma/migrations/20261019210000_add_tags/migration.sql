@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT 'gray',
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wallet_tags" (
+    "wallet_id" TEXT NOT NULL,
+    "tag_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_tags_pkey" PRIMARY KEY ("wallet_id","tag_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_name_key" ON "tags"("name");
+
+-- CreateIndex
+CREATE INDEX "wallet_tags_tag_id_idx" ON "wallet_tags"("tag_id");
+
+-- AddForeignKey
+ALTER TABLE "wallet_tags" ADD CONSTRAINT "wallet_tags_wallet_id_fkey" FOREIGN KEY ("wallet_id") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wallet_tags" ADD CONSTRAINT "wallet_tags_tag_id_fkey" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move comma-separated wallets.tag values into the catalog, keeping the colors previously hard-coded in WalletTag.tsx
+INSERT INTO "tags" ("id", "name", "color", "updated_at")
+SELECT gen_random_uuid()::text, t."name",
+       CASE t."name"
+         WHEN 'Treasury' THEN 'blue'
+         WHEN 'Ops' THEN 'green'
+         WHEN 'High Security' THEN 'red'
+         WHEN 'Payroll' THEN 'purple'
+         WHEN 'Investments' THEN 'yellow'
+         ELSE 'gray'
+       END,
+       CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT btrim(part) AS "name"
+    FROM "wallets", unnest(string_to_array("tag", ',')) AS part
+    WHERE "tag" IS NOT NULL
+) t
+WHERE t."name" <> '';
+
+INSERT INTO "wallet_tags" ("wallet_id", "tag_id")
+SELECT DISTINCT w."id", t."id"
+FROM "wallets" w
+CROSS JOIN LATERAL unnest(string_to_array(w."tag", ',')) AS part
+JOIN "tags" t ON t."name" = btrim(part)
+WHERE w."tag" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "wallets" DROP COLUMN "tag";
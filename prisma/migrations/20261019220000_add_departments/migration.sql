@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "departments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "departments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "departments_name_key" ON "departments"("name");
+
+-- AlterTable
+ALTER TABLE "signers" ADD COLUMN "department_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "signers_department_id_idx" ON "signers"("department_id");
+
+-- AddForeignKey
+ALTER TABLE "signers" ADD CONSTRAINT "signers_department_id_fkey" FOREIGN KEY ("department_id") REFERENCES "departments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- One department per free-text value, ignoring case and extra whitespace. The most
+-- common spelling wins; near-duplicates like "Fin" are left for the review screen.
+WITH "spellings" AS (
+    SELECT regexp_replace(btrim("department"), '\s+', ' ', 'g') AS "name", count(*) AS "uses"
+    FROM "signers"
+    WHERE "department" IS NOT NULL AND btrim("department") <> ''
+    GROUP BY 1
+)
+INSERT INTO "departments" ("id", "name", "updated_at")
+SELECT DISTINCT ON (lower("name")) gen_random_uuid()::text, "name", CURRENT_TIMESTAMP
+FROM "spellings"
+ORDER BY lower("name"), "uses" DESC, "name";
+
+UPDATE "signers" s
+SET "department_id" = d."id"
+FROM "departments" d
+WHERE lower(d."name") = lower(regexp_replace(btrim(s."department"), '\s+', ' ', 'g'));
+
+-- AlterTable
+ALTER TABLE "signers" DROP COLUMN "department";
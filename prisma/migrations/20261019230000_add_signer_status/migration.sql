@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "signers" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN "status_since" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "status_until" TIMESTAMP(3),
+ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- Existing signers have been active since they were added
+UPDATE "signers" SET "status_since" = "created_at";
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "address_types" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "custody" TEXT NOT NULL DEFAULT 'other',
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "address_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "address_types_name_key" ON "address_types"("name");
+
+-- AlterTable
+ALTER TABLE "signer_addresses" ADD COLUMN "address_type_id" TEXT,
+ADD COLUMN "serial_ref" TEXT,
+ADD COLUMN "storage_location" TEXT,
+ADD COLUMN "acquired_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "signer_addresses_address_type_id_idx" ON "signer_addresses"("address_type_id");
+
+-- AddForeignKey
+ALTER TABLE "signer_addresses" ADD CONSTRAINT "signer_addresses_address_type_id_fkey" FOREIGN KEY ("address_type_id") REFERENCES "address_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Starting vocabulary; more can be added on the Address types page
+INSERT INTO "address_types" ("id", "name", "custody", "updated_at") VALUES
+    (gen_random_uuid()::text, 'Ledger', 'hardware', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Trezor', 'hardware', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'GridPlus Lattice1', 'hardware', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Other hardware wallet', 'hardware', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Hot wallet', 'hot', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'MPC wallet', 'mpc', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Smart account', 'smart_account', CURRENT_TIMESTAMP);
+
+-- Classify existing addresses from the free-text type or name, using the same
+-- keywords extractNameAndType() looks for. Anything else stays unclassified.
+UPDATE "signer_addresses" a
+SET "address_type_id" = t."id"
+FROM "address_types" t
+WHERE t."name" = CASE
+    WHEN lower(coalesce(a."type", '') || ' ' || coalesce(a."name", '')) ~ 'hot[\s_]*wallet' THEN 'Hot wallet'
+    WHEN lower(coalesce(a."type", '') || ' ' || coalesce(a."name", '')) LIKE '%ledger%' THEN 'Ledger'
+    WHEN lower(coalesce(a."type", '') || ' ' || coalesce(a."name", '')) LIKE '%trezor%' THEN 'Trezor'
+    WHEN lower(coalesce(a."type", '') || ' ' || coalesce(a."name", '')) ~ 'hardware[\s_]*wallet' THEN 'Other hardware wallet'
+    WHEN lower(coalesce(a."type", '') || ' ' || coalesce(a."name", '')) ~ '\mmpc\M' THEN 'MPC wallet'
+END;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "wallets" ADD COLUMN "drift_acknowledged_at" TIMESTAMP(3);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "wallets" ADD COLUMN "confirmations_backfill_offset" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "confirmations_backfilled_at" TIMESTAMP(3);
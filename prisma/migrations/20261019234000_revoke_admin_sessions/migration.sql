@@ -0,0 +1,4 @@
+-- Admin sessions created before two-factor was required never passed it; force a fresh login
+UPDATE "sessions" SET "revoked_at" = CURRENT_TIMESTAMP
+WHERE "revoked_at" IS NULL
+  AND "user_id" IN (SELECT "id" FROM "users" WHERE "role" = 'admin');
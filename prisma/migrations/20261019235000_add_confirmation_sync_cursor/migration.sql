@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "wallets" ADD COLUMN "confirmations_synced_count" INTEGER NOT NULL DEFAULT 0;
@@ -65,7 +65,14 @@ async function cleanupAndReimportSigners() {
       const signer = await prisma.signer.create({
         data: {
           name: signerData.name,
-          department: signerData.department || null,
+          ...(signerData.department?.trim() && {
+            department: {
+              connectOrCreate: {
+                where: { name: signerData.department.trim() },
+                create: { name: signerData.department.trim() },
+              },
+            },
+          }),
         },
       })
       console.log(`✅ Created signer: ${signerData.name}`)
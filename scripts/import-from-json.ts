@@ -10,6 +10,18 @@ function isWalletName(name: string | null): boolean {
   return lowerName.includes('safe') || lowerName.includes('multisig')
 }
 
+// Departments are matched case-insensitively, like the app does
+async function findOrCreateDepartmentId(name: string | null): Promise<string | null> {
+  const normalized = name?.trim().replace(/\s+/g, ' ')
+  if (!normalized) return null
+  const existing = await prisma.department.findFirst({
+    where: { name: { equals: normalized, mode: 'insensitive' } },
+  })
+  if (existing) return existing.id
+  const created = await prisma.department.create({ data: { name: normalized } })
+  return created.id
+}
+
 function validateAddress(address: string): string | null {
   address = address.trim().toLowerCase()
   if (address.match(/^0x[a-f0-9]{40}$/)) {
@@ -258,7 +270,6 @@ async function importFromJson() {
           address: wallet.address.toLowerCase(),
           chainId: wallet.chainId,
           name: wallet.name || null,
-          tag: null,
         },
       })
       console.log(`✅ Added wallet: ${wallet.address} (${wallet.chainId})${wallet.name ? ` - "${wallet.name}"` : ''}`)
@@ -313,7 +324,7 @@ async function importFromJson() {
       // Try exact match first
       let signer = await prisma.signer.findFirst({
         where: { name: signerData.name },
-        include: { addresses: true },
+        include: { department: true, addresses: true },
       })
 
       // If not found, try to find by base name (e.g., "Dheeraj" matches "Dheeraj account 1")
@@ -333,7 +344,7 @@ async function importFromJson() {
                 mode: 'insensitive',
               },
             },
-            include: { addresses: true },
+            include: { department: true, addresses: true },
           })
           
           // Find the best match (exact base name or starts with base name)
@@ -348,25 +359,26 @@ async function importFromJson() {
         signer = await prisma.signer.create({
           data: {
             name: signerData.name,
-            department: signerData.department || null,
+            departmentId: await findOrCreateDepartmentId(signerData.department),
           },
-          include: { addresses: true },
+          include: { department: true, addresses: true },
         })
         console.log(`✅ Created signer: ${signerData.name}`)
         signersAdded++
       } else {
         // Update existing signer if department has changed
-        const currentDept = signer.department || null
+        const currentDept = signer.department?.name || null
         const newDept = signerData.department || null
-        const needsUpdate = currentDept !== newDept
+        const newDeptId = await findOrCreateDepartmentId(newDept)
+        const needsUpdate = signer.departmentId !== newDeptId
         
         if (needsUpdate) {
           signer = await prisma.signer.update({
             where: { id: signer.id },
             data: {
-              department: newDept,
+              departmentId: newDeptId,
             },
-            include: { addresses: true },
+            include: { department: true, addresses: true },
           })
           console.log(
             `🔄 Updated signer: ${signer.name} (department: ${currentDept || 'null'} → ${newDept || 'null'})`
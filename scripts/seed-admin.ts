@@ -14,19 +14,19 @@ async function main() {
     where: { username },
     update: {
       passwordHash,
-      isAdmin: true,
+      role: 'admin',
     },
     create: {
       username,
       passwordHash,
-      isAdmin: true,
+      role: 'admin',
     },
   })
 
   console.log('Admin user created/updated:', {
     id: admin.id,
     username: admin.username,
-    isAdmin: admin.isAdmin,
+    role: admin.role,
   })
 }
 
@@ -2,6 +2,19 @@
 
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
+import { getAddress } from 'ethers'
+import { formatSiweMessage, SIWE_STATEMENT } from '@/lib/siwe'
+
+type EthereumProvider = {
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>
+}
+
+// Return to the page that required login (private mode), otherwise the dashboard.
+// Full page reload to ensure session is updated.
+function redirectAfterLogin() {
+  const next = new URLSearchParams(window.location.search).get('next')
+  window.location.href = next && next.startsWith('/') && !next.startsWith('//') ? next : '/wallets'
+}
 
 export default function LoginPage() {
   const router = useRouter()
@@ -9,6 +22,11 @@ export default function LoginPage() {
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
+  const [walletLoading, setWalletLoading] = useState(false)
+  const [totpRequired, setTotpRequired] = useState(false)
+  const [totpCode, setTotpCode] = useState('')
+  const [enrolment, setEnrolment] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -33,20 +51,37 @@ export default function LoginPage() {
         },
         body: JSON.stringify({ 
           username: trimmedUsername, 
-          password: trimmedPassword 
+          password: trimmedPassword,
+          ...((totpRequired || enrolment) && { totpCode: totpCode.trim() }),
         }),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        setError(data.error || 'Login failed')
+        if (data.totpRequired) {
+          // Password was accepted; ask for the second factor without showing an error the first time
+          setError(totpRequired ? data.error || 'Invalid two-factor code' : '')
+          setTotpRequired(true)
+        } else if (data.totpEnrollmentRequired) {
+          // Admin without two-factor: show the secret to scan, then log in with its first code
+          setError(enrolment ? data.error || 'Invalid two-factor code' : '')
+          setEnrolment({ secret: data.secret, qrCodeDataUrl: data.qrCodeDataUrl })
+        } else {
+          setError(data.error || 'Login failed')
+        }
+        setLoading(false)
+        return
+      }
+
+      if (data.recoveryCodes) {
+        // Enrolled during login: the recovery codes are only ever shown now
+        setRecoveryCodes(data.recoveryCodes)
         setLoading(false)
         return
       }
 
-      // Redirect to dashboard with full page reload to ensure session is updated
-      window.location.href = '/wallets'
+      redirectAfterLogin()
     } catch (err) {
       console.error('Login error:', err)
       setError('An error occurred. Please try again.')
@@ -54,6 +89,93 @@ export default function LoginPage() {
     }
   }
 
+  const handleWalletSignIn = async () => {
+    setError('')
+    const ethereum = (window as Window & { ethereum?: EthereumProvider }).ethereum
+    if (!ethereum) {
+      setError('No Ethereum wallet found. Install a browser wallet such as MetaMask or Rabby.')
+      return
+    }
+
+    setWalletLoading(true)
+    try {
+      const accounts = (await ethereum.request({ method: 'eth_requestAccounts' })) as string[]
+      if (!accounts?.length) {
+        setError('No account selected in your wallet')
+        return
+      }
+      const address = getAddress(accounts[0])
+      const chainId = parseInt((await ethereum.request({ method: 'eth_chainId' })) as string, 16)
+
+      const nonceResponse = await fetch('/api/auth/siwe/nonce', { cache: 'no-store' })
+      const nonceData = await nonceResponse.json()
+      if (!nonceResponse.ok) {
+        setError(nonceData.error || 'Could not start wallet sign-in')
+        return
+      }
+
+      const message = formatSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: SIWE_STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId,
+        nonce: nonceData.nonce,
+        issuedAt: new Date().toISOString(),
+      })
+      const signature = (await ethereum.request({ method: 'personal_sign', params: [message, address] })) as string
+
+      const response = await fetch('/api/auth/siwe/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Wallet sign-in failed')
+        return
+      }
+
+      redirectAfterLogin()
+    } catch (err) {
+      console.error('Wallet sign-in error:', err)
+      setError(err instanceof Error ? err.message : 'Wallet sign-in was cancelled or failed')
+    } finally {
+      setWalletLoading(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="w-full max-w-md space-y-6 rounded-lg bg-white p-8 shadow-md">
+          <h2 className="text-center text-2xl font-bold tracking-tight text-black">
+            Two-factor authentication is on
+          </h2>
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+            <div className="font-semibold">Save your recovery codes</div>
+            <p className="mt-1">
+              Each code can be used once instead of an authenticator code. They will not be shown again.
+            </p>
+            <ul className="mt-3 grid grid-cols-2 gap-1 font-mono">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+          <button
+            type="button"
+            onClick={redirectAfterLogin}
+            className="flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+          >
+            I have saved them, continue
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50">
       <div className="w-full max-w-md space-y-8 rounded-lg bg-white p-8 shadow-md">
@@ -97,6 +219,43 @@ export default function LoginPage() {
                 className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
               />
             </div>
+            {enrolment && (
+              <div className="rounded-md border border-gray-200 p-4 text-sm text-black">
+                <div className="font-semibold">Set up two-factor authentication</div>
+                <p className="mt-1">
+                  Admin accounts need a second factor. Scan this QR code with your authenticator app,
+                  then enter the 6-digit code it shows.
+                </p>
+                {/* eslint-disable-next-line @next/next/no-img-element -- data URL, nothing to optimize */}
+                <img src={enrolment.qrCodeDataUrl} alt="Two-factor QR code" className="my-4 h-48 w-48" />
+                <p className="text-xs">
+                  Or enter this key manually: <span className="break-all font-mono">{enrolment.secret}</span>
+                </p>
+              </div>
+            )}
+            {(totpRequired || enrolment) && (
+              <div>
+                <label htmlFor="totpCode" className="block text-sm font-medium text-black">
+                  Two-factor code
+                </label>
+                <input
+                  id="totpCode"
+                  name="totpCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value)}
+                  className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                />
+                {totpRequired && (
+                  <p className="mt-1 text-xs text-black">
+                    Enter the 6-digit code from your authenticator app, or a recovery code.
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           <div>
@@ -109,6 +268,19 @@ export default function LoginPage() {
             </button>
           </div>
         </form>
+        <div className="border-t border-gray-200 pt-6">
+          <button
+            type="button"
+            onClick={handleWalletSignIn}
+            disabled={walletLoading}
+            className="flex w-full justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-black hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {walletLoading ? 'Waiting for wallet...' : 'Sign in with Ethereum'}
+          </button>
+          <p className="mt-2 text-center text-xs text-black">
+            Use the same key you sign Safe transactions with.
+          </p>
+        </div>
       </div>
     </div>
   )
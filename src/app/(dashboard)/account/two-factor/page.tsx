@@ -0,0 +1,233 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+interface TwoFactorSetup {
+  secret: string
+  otpauthUri: string
+  qrCodeDataUrl: string
+}
+
+export default function TwoFactorPage() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const loadStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/totp')
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to load two-factor status')
+        return
+      }
+      setStatus(data)
+    } catch {
+      setError('Failed to load two-factor status')
+    }
+  }
+
+  const post = async (url: string, body?: Record<string, string>) => {
+    setError('')
+    setLoading(true)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Request failed')
+        return null
+      }
+      return data
+    } catch {
+      setError('An error occurred. Please try again.')
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleStartSetup = async () => {
+    const data = await post('/api/auth/totp/setup')
+    if (data) {
+      setSetup(data)
+      setCode('')
+    }
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await post('/api/auth/totp/enable', { code: code.trim() })
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes)
+      setSetup(null)
+      setCode('')
+      await loadStatus()
+    }
+  }
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!confirm('Turn off two-factor authentication for your account?')) return
+    const data = await post('/api/auth/totp/disable', { password, code: code.trim() })
+    if (data) {
+      setPassword('')
+      setCode('')
+      setRecoveryCodes(null)
+      await loadStatus()
+    }
+  }
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500'
+
+  return (
+    <div className="max-w-xl">
+      <h1 className="mb-2 text-3xl font-bold text-black">Two-Factor Authentication</h1>
+      <p className="mb-6 text-sm text-black">
+        Once enabled, password login also asks for a code from an authenticator app. Strongly recommended for
+        admins, who can change which addresses we attribute to each signer.
+      </p>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">{error}</div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+          <div className="font-semibold">Save your recovery codes</div>
+          <p className="mt-1">
+            Each code can be used once instead of an authenticator code. They will not be shown again.
+          </p>
+          <ul className="mt-3 grid grid-cols-2 gap-1 font-mono">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!status ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : status.enabled ? (
+        <div className="rounded-lg bg-white p-6 shadow">
+          <p className="text-sm text-black">
+            <span className="rounded bg-green-100 px-2 py-1 text-xs font-medium text-green-800">Enabled</span>
+            {status.enabledAt && <> since {new Date(status.enabledAt).toLocaleDateString()}</>}
+            {' · '}
+            {status.recoveryCodesRemaining} recovery code(s) left
+          </p>
+
+          <form onSubmit={handleDisable} className="mt-6 space-y-4">
+            <h2 className="text-lg font-semibold text-black">Turn off</h2>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-black">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="disableCode" className="block text-sm font-medium text-black">
+                Authenticator or recovery code
+              </label>
+              <input
+                id="disableCode"
+                type="text"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={loading}
+                className="rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Turn off two-factor'}
+              </button>
+            </div>
+          </form>
+        </div>
+      ) : setup ? (
+        <form onSubmit={handleEnable} className="rounded-lg bg-white p-6 shadow">
+          <p className="text-sm text-black">Scan this QR code with your authenticator app:</p>
+          {/* eslint-disable-next-line @next/next/no-img-element -- data URL, nothing to optimize */}
+          <img src={setup.qrCodeDataUrl} alt="Two-factor QR code" className="my-4 h-48 w-48" />
+          <p className="text-xs text-black">
+            Or enter this key manually: <span className="break-all font-mono">{setup.secret}</span>
+          </p>
+          <div className="mt-4">
+            <label htmlFor="enableCode" className="block text-sm font-medium text-black">
+              6-digit code from the app
+            </label>
+            <input
+              id="enableCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-black hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {loading ? 'Verifying...' : 'Verify and enable'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="rounded-lg bg-white p-6 shadow">
+          <p className="text-sm text-black">Two-factor authentication is not enabled for your account.</p>
+          <button
+            onClick={handleStartSetup}
+            disabled={loading}
+            className="mt-4 rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Set up two-factor
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
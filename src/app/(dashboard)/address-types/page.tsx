@@ -0,0 +1,393 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import ChainBadge from '@/components/ChainBadge'
+import AddressDisplay from '@/components/AddressDisplay'
+import CustodyBadge from '@/components/CustodyBadge'
+import { CUSTODY_KINDS, CUSTODY_LABELS, type CustodyKind } from '@/lib/custody'
+import type { AddressTypeSummary, HotWalletSafe } from '@/types'
+import type { Permission } from '@/lib/permissions'
+
+function HotControlBadge({ safe }: { safe: HotWalletSafe }) {
+  if (safe.canMeetThreshold === null) {
+    return (
+      <span className="rounded bg-gray-100 px-2 py-1 text-xs font-medium text-gray-700" title="No snapshot yet, threshold unknown">
+        Unknown
+      </span>
+    )
+  }
+  return safe.canMeetThreshold ? (
+    <span className="rounded bg-red-100 px-2 py-1 text-xs font-medium text-red-800">Hot wallets can sign alone</span>
+  ) : (
+    <span className="rounded bg-green-100 px-2 py-1 text-xs font-medium text-green-800">Needs other keys</span>
+  )
+}
+
+export default function AddressTypesPage() {
+  const [addressTypes, setAddressTypes] = useState<AddressTypeSummary[]>([])
+  const [hotSafes, setHotSafes] = useState<HotWalletSafe[] | null>(null) // null when the report is not visible to this user
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [permissions, setPermissions] = useState<Permission[]>([])
+
+  const [name, setName] = useState('')
+  const [custody, setCustody] = useState<CustodyKind>('hardware')
+  const [description, setDescription] = useState('')
+  const [createError, setCreateError] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  const canManage = permissions.includes('signer:manage')
+  const hotControlled = (hotSafes || []).filter((safe) => safe.canMeetThreshold === true)
+
+  useEffect(() => {
+    loadAll()
+    loadSession()
+  }, [])
+
+  const loadSession = async () => {
+    try {
+      const response = await fetch('/api/auth/session')
+      if (response.ok) {
+        const session = await response.json()
+        setPermissions(session.permissions || [])
+      }
+    } catch (error) {
+      console.error('Failed to load session:', error)
+    }
+  }
+
+  // Custody changes move Safes in and out of the report, so both are reloaded together
+  const loadAll = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [typesResponse, reportResponse] = await Promise.all([
+        fetch('/api/address-types'),
+        fetch('/api/address-types/hot-wallets'),
+      ])
+      const [typesData, reportData] = await Promise.all([typesResponse.json(), reportResponse.json()])
+      // The hot wallet report is only shown to signer managers
+      const reportHidden = reportResponse.status === 401 || reportResponse.status === 403
+      if (!typesResponse.ok || (!reportResponse.ok && !reportHidden)) {
+        setError(typesData.error || reportData.error || 'Failed to fetch address types')
+        return
+      }
+      setAddressTypes(typesData)
+      setHotSafes(reportHidden ? null : reportData)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch address types')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreateError('')
+
+    if (!name.trim()) {
+      setCreateError('Name is required')
+      return
+    }
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/address-types', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), custody, description: description.trim() || undefined }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setCreateError(data.error || 'Failed to create address type')
+        return
+      }
+      setName('')
+      setCustody('hardware')
+      setDescription('')
+      await loadAll()
+    } catch {
+      setCreateError('An error occurred. Please try again.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const runAction = async (addressType: AddressTypeSummary, init: RequestInit, failure: string) => {
+    setBusyId(addressType.id)
+    try {
+      const response = await fetch(`/api/address-types/${addressType.id}`, init)
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || failure)
+        return
+      }
+      await loadAll()
+    } catch (e) {
+      console.error(`${failure}:`, e)
+      alert(`An error occurred: ${failure.toLowerCase()}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const updateAddressType = (addressType: AddressTypeSummary, changes: Record<string, unknown>) =>
+    runAction(
+      addressType,
+      { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(changes) },
+      'Failed to update address type'
+    )
+
+  const handleRename = async (addressType: AddressTypeSummary) => {
+    const value = prompt(`Rename "${addressType.name}" for all ${addressType.addressCount} address(es) to:`, addressType.name)
+    if (value === null || !value.trim() || value.trim() === addressType.name) return
+    await updateAddressType(addressType, { name: value.trim() })
+  }
+
+  const handleEditDescription = async (addressType: AddressTypeSummary) => {
+    const value = prompt(`Description for "${addressType.name}":`, addressType.description || '')
+    if (value === null) return
+    await updateAddressType(addressType, { description: value })
+  }
+
+  const handleDelete = async (addressType: AddressTypeSummary) => {
+    if (!confirm(`Delete address type "${addressType.name}"? Its ${addressType.addressCount} address(es) become unclassified.`)) {
+      return
+    }
+    await runAction(addressType, { method: 'DELETE' }, 'Failed to delete address type')
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-black">Address Types</h1>
+        <p className="mt-1 text-sm text-black">
+          The kinds of key a signer address can be, set per address in the signer&apos;s edit dialog. Custody says how the key is held and drives the hot wallet report below.
+        </p>
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleCreate} className="mb-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 text-xl font-semibold text-black">Create address type</h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-black">
+                Name
+              </label>
+              <input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ledger Nano X"
+                className="mt-1 block w-56 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="custody" className="block text-sm font-medium text-black">
+                Custody
+              </label>
+              <select
+                id="custody"
+                value={custody}
+                onChange={(e) => setCustody(e.target.value as CustodyKind)}
+                className="mt-1 block w-44 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+              >
+                {CUSTODY_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {CUSTODY_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label htmlFor="description" className="block text-sm font-medium text-black">
+                Description
+              </label>
+              <input
+                id="description"
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={creating}
+              className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {creating ? 'Creating...' : 'Create address type'}
+            </button>
+          </div>
+          {createError && (
+            <div className="mt-4 rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-800">{createError}</p>
+            </div>
+          )}
+        </form>
+      )}
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load address types</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : (
+        <>
+          <div className="mb-6 overflow-x-auto rounded-lg bg-white shadow">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Address type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Custody</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Description</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Addresses</th>
+                  {canManage && (
+                    <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Actions</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {addressTypes.length === 0 ? (
+                  <tr>
+                    <td colSpan={canManage ? 5 : 4} className="px-6 py-4 text-center text-black">
+                      No address types yet
+                    </td>
+                  </tr>
+                ) : (
+                  addressTypes.map((addressType) => (
+                    <tr key={addressType.id} className="hover:bg-gray-50">
+                      <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-black">{addressType.name}</td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {canManage ? (
+                          <select
+                            value={addressType.custody}
+                            onChange={(e) => updateAddressType(addressType, { custody: e.target.value })}
+                            disabled={busyId !== null}
+                            className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black disabled:opacity-60"
+                          >
+                            {CUSTODY_KINDS.map((kind) => (
+                              <option key={kind} value={kind}>
+                                {CUSTODY_LABELS[kind]}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <CustodyBadge custody={addressType.custody} />
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-black">
+                        {addressType.description || '—'}
+                        {canManage && (
+                          <button
+                            onClick={() => handleEditDescription(addressType)}
+                            disabled={busyId !== null}
+                            className="ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                          >
+                            Edit
+                          </button>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{addressType.addressCount}</td>
+                      {canManage && (
+                        <td className="whitespace-nowrap px-6 py-4 text-sm">
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleRename(addressType)}
+                              disabled={busyId !== null}
+                              className="rounded-md bg-gray-100 px-3 py-1 text-xs font-medium text-black hover:bg-gray-200 disabled:opacity-60"
+                            >
+                              Rename
+                            </button>
+                            <button
+                              onClick={() => handleDelete(addressType)}
+                              disabled={busyId !== null}
+                              className="rounded-md bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-60"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Hot wallet report */}
+          {hotSafes && (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="mb-1 text-xl font-semibold text-black">
+                Safes with hot wallet owners ({hotControlled.length} can be signed by hot wallets alone)
+              </h2>
+              <p className="mb-4 text-sm text-black">
+                Owners and thresholds come from the latest on-chain snapshot of each Safe. Owners without an address type are counted as unclassified; any of them could be hot wallets too.
+              </p>
+              {hotSafes.length === 0 ? (
+                <p className="text-black">No Safes have a hot wallet owner</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Wallet</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Network</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Hot wallet owners</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Unclassified</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Threshold</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Control</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 bg-white">
+                      {hotSafes.map((safe) => (
+                        <tr key={safe.walletId} className="align-top hover:bg-gray-50">
+                          <td className="whitespace-nowrap px-6 py-4">
+                            <Link href={`/wallets/${safe.walletId}`} className="font-medium text-blue-600 hover:text-blue-800">
+                              {safe.name || safe.address.slice(0, 10) + '...'}
+                            </Link>
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4">
+                            <ChainBadge chainId={safe.chainId} />
+                          </td>
+                          <td className="px-6 py-4 text-sm text-black">
+                            <div className="mb-1">
+                              {safe.hotOwners.length} of {safe.ownerCount} owners
+                            </div>
+                            <ul className="space-y-0.5 text-xs">
+                              {safe.hotOwners.map((owner) => (
+                                <li key={owner.address}>
+                                  <AddressDisplay address={owner.address} name={owner.signerName} signerId={owner.signerId} />{' '}
+                                  <span className="text-gray-600">{owner.addressType}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{safe.unclassifiedOwnerCount}</td>
+                          <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                            {safe.threshold === null ? '—' : `${safe.threshold} / ${safe.ownerCount}`}
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4 text-sm">
+                            <HotControlBadge safe={safe} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { AuditEventEntry } from '@/types'
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  wallet: 'Wallet',
+  signer: 'Signer',
+  signer_address: 'Signer address',
+  tag: 'Tag',
+  department: 'Department',
+  address_type: 'Address type',
+  lockout: 'Login lockout',
+}
+
+interface AuditFilters {
+  actor: string
+  entityType: string
+  entityId: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', entityType: '', entityId: '', from: '', to: '' }
+
+function buildQuery(filters: AuditFilters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra)
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim())
+  }
+  return params.toString()
+}
+
+/**
+ * Top-level fields that differ between before and after, for the summary column
+ */
+function describeChanges(event: AuditEventEntry): string[] {
+  if (!event.before || !event.after || typeof event.before !== 'object' || typeof event.after !== 'object') return []
+  const before = event.before as Record<string, unknown>
+  const after = event.after as Record<string, unknown>
+
+  const changes: string[] = []
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (key === 'updatedAt') continue
+    const from = JSON.stringify(before[key] ?? null)
+    const to = JSON.stringify(after[key] ?? null)
+    if (from !== to) changes.push(`${key}: ${from} → ${to}`)
+  }
+  return changes
+}
+
+function entityHref(event: AuditEventEntry): string | null {
+  if (event.action.endsWith('.delete')) return null
+  if (event.entityType === 'wallet') return `/wallets/${event.entityId}`
+  if (event.entityType === 'signer') return `/signers/${event.entityId}`
+  if (event.entityType === 'department') return `/departments/${event.entityId}`
+  return null
+}
+
+export default function AuditPage() {
+  const [events, setEvents] = useState<AuditEventEntry[]>([])
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadEvents(EMPTY_FILTERS)
+  }, [])
+
+  const loadEvents = async (activeFilters: AuditFilters) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/audit?${buildQuery(activeFilters)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to fetch audit events')
+        return
+      }
+      setEvents(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch audit events')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const setFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }))
+  }
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault()
+    loadEvents(filters)
+  }
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS)
+    loadEvents(EMPTY_FILTERS)
+  }
+
+  const inputClass =
+    'mt-1 block w-44 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500'
+
+  return (
+    <div>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-black">Audit Log</h1>
+          <p className="mt-1 text-sm text-black">
+            Every change to wallets, signers, signer addresses, tags, departments and address types, with who made it and the values before and after.
+          </p>
+        </div>
+        <a
+          href={`/api/audit?${buildQuery(filters, { format: 'csv' })}`}
+          className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <form onSubmit={handleApply} className="mb-6 flex flex-wrap items-end gap-4 rounded-lg bg-white p-4 shadow">
+        <div>
+          <label htmlFor="actor" className="block text-sm font-medium text-black">
+            Actor
+          </label>
+          <input
+            id="actor"
+            type="text"
+            placeholder="Username"
+            value={filters.actor}
+            onChange={(e) => setFilter('actor', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="entityType" className="block text-sm font-medium text-black">
+            Entity
+          </label>
+          <select
+            id="entityType"
+            value={filters.entityType}
+            onChange={(e) => setFilter('entityType', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {Object.entries(ENTITY_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="entityId" className="block text-sm font-medium text-black">
+            Entity ID
+          </label>
+          <input
+            id="entityId"
+            type="text"
+            value={filters.entityId}
+            onChange={(e) => setFilter('entityId', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="from" className="block text-sm font-medium text-black">
+            From (UTC)
+          </label>
+          <input
+            id="from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilter('from', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="to" className="block text-sm font-medium text-black">
+            To (UTC)
+          </label>
+          <input
+            id="to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilter('to', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-black hover:bg-gray-50"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load audit events</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Time</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Actor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Action</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Entity</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Changes</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">IP</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {events.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-black">
+                    No audit events match these filters
+                  </td>
+                </tr>
+              ) : (
+                events.map((event) => {
+                  const changes = describeChanges(event)
+                  const href = entityHref(event)
+                  return (
+                    <tr key={event.id} className="align-top hover:bg-gray-50">
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-black">{event.actor}</td>
+                      <td className="whitespace-nowrap px-6 py-4 font-mono text-sm text-black">{event.action}</td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {ENTITY_TYPE_LABELS[event.entityType] || event.entityType}{' '}
+                        {href ? (
+                          <Link href={href} className="font-mono text-xs text-indigo-600 hover:text-indigo-800">
+                            {event.entityId.slice(0, 8)}
+                          </Link>
+                        ) : (
+                          <span className="font-mono text-xs" title={event.entityId}>
+                            {event.entityId.slice(0, 8)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-black">
+                        {changes.length > 0 && (
+                          <ul className="mb-1 space-y-0.5 text-xs">
+                            {changes.map((change) => (
+                              <li key={change} className="break-all">
+                                {change}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <details>
+                          <summary className="cursor-pointer text-xs text-indigo-600">Raw</summary>
+                          <pre className="mt-1 max-w-xl overflow-x-auto whitespace-pre-wrap break-all rounded bg-gray-50 p-2 text-xs">
+                            {JSON.stringify({ before: event.before, after: event.after }, null, 2)}
+                          </pre>
+                        </details>
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 font-mono text-sm text-black">{event.ip || '—'}</td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import ChainBadge from '@/components/ChainBadge'
+import AddressDisplay from '@/components/AddressDisplay'
+import SignerStatusBadge from '@/components/SignerStatusBadge'
+import type { DepartmentReport, DepartmentSafe } from '@/types'
+
+function ControlBadge({ safe }: { safe: DepartmentSafe }) {
+  if (safe.canMeetThreshold === null) {
+    return (
+      <span className="rounded bg-gray-100 px-2 py-1 text-xs font-medium text-gray-700" title="No snapshot yet, threshold unknown">
+        Unknown
+      </span>
+    )
+  }
+  return safe.canMeetThreshold ? (
+    <span className="rounded bg-yellow-100 px-2 py-1 text-xs font-medium text-yellow-800">Can sign alone</span>
+  ) : (
+    <span className="rounded bg-green-100 px-2 py-1 text-xs font-medium text-green-800">Needs other departments</span>
+  )
+}
+
+export default function DepartmentPage() {
+  const params = useParams()
+  const departmentId = params.id as string
+
+  const [report, setReport] = useState<DepartmentReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/departments/${departmentId}`)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || 'Failed to fetch department')
+          return
+        }
+        setReport(data)
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to fetch department')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadReport()
+  }, [departmentId])
+
+  if (loading) {
+    return <div className="py-8 text-center text-black">Loading...</div>
+  }
+
+  if (error || !report) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+        <div className="font-semibold">Could not load department</div>
+        <div className="mt-1">{error || 'Department not found'}</div>
+      </div>
+    )
+  }
+
+  const soleControl = report.safes.filter((safe) => safe.canMeetThreshold).length
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/departments" className="text-sm text-indigo-600 hover:text-indigo-800">
+          ← All departments
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-black">{report.name}</h1>
+        {report.description && <p className="mt-1 text-sm text-black">{report.description}</p>}
+      </div>
+
+      {soleControl > 0 && (
+        <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+          <div className="font-semibold">
+            {report.name} can meet the threshold of {soleControl} Safe{soleControl === 1 ? '' : 's'} on its own
+          </div>
+          <div className="mt-1">Owners from this department alone hold enough signatures to execute transactions on them.</div>
+        </div>
+      )}
+
+      {/* Members Section */}
+      <div className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-xl font-semibold text-black">Members ({report.members.length})</h2>
+        {report.members.length === 0 ? (
+          <p className="text-black">No signers in this department</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Signer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Addresses</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {report.members.map((member) => (
+                  <tr key={member.id} className="align-top hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-6 py-4">
+                      <Link href={`/signers/${member.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                        {member.name}
+                      </Link>
+                      {member.status !== 'active' && (
+                        <span className="ml-2">
+                          <SignerStatusBadge status={member.status} />
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-black">
+                      {member.addresses.length === 0 ? (
+                        '—'
+                      ) : (
+                        <ul className="space-y-1">
+                          {member.addresses.map((addr) => (
+                            <li key={addr.id} className="flex items-center gap-2">
+                              <AddressDisplay address={addr.address} signerId={member.id} linkToSigner={false} />
+                              {(addr.name || addr.type) && (
+                                <span className="text-xs text-gray-600">{[addr.name, addr.type].filter(Boolean).join(' · ')}</span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Safes Section */}
+      <div className="rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-1 text-xl font-semibold text-black">Safes ({report.safes.length})</h2>
+        <p className="mb-4 text-sm text-black">
+          Owners and thresholds come from the latest on-chain snapshot of each Safe.
+        </p>
+        {report.safes.length === 0 ? (
+          <p className="text-black">No Safes have an owner from this department</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Wallet</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Network</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Department owners</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Threshold</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Control</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {report.safes.map((safe) => (
+                  <tr key={safe.walletId} className="align-top hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-6 py-4">
+                      <Link href={`/wallets/${safe.walletId}`} className="font-medium text-blue-600 hover:text-blue-800">
+                        {safe.name || safe.address.slice(0, 10) + '...'}
+                      </Link>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4">
+                      <ChainBadge chainId={safe.chainId} />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-black">
+                      <div className="mb-1">
+                        {safe.departmentOwners.length} of {safe.ownerCount} owners
+                      </div>
+                      <ul className="space-y-0.5 text-xs">
+                        {safe.departmentOwners.map((owner) => (
+                          <li key={owner.address}>
+                            <AddressDisplay address={owner.address} name={owner.signerName} signerId={owner.signerId} />
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {safe.threshold === null ? '—' : `${safe.threshold} / ${safe.ownerCount}`}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <ControlBadge safe={safe} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { DepartmentMergeSuggestion, DepartmentSummary } from '@/types'
+import type { Permission } from '@/lib/permissions'
+
+export default function DepartmentsPage() {
+  const [departments, setDepartments] = useState<DepartmentSummary[]>([])
+  const [suggestions, setSuggestions] = useState<DepartmentMergeSuggestion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [permissions, setPermissions] = useState<Permission[]>([])
+
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [createError, setCreateError] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  const canManage = permissions.includes('signer:manage')
+
+  useEffect(() => {
+    loadDepartments()
+    loadSession()
+  }, [])
+
+  // The duplicate review is only shown to signer managers
+  useEffect(() => {
+    if (canManage) loadSuggestions()
+  }, [canManage])
+
+  const loadSession = async () => {
+    try {
+      const response = await fetch('/api/auth/session')
+      if (response.ok) {
+        const session = await response.json()
+        setPermissions(session.permissions || [])
+      }
+    } catch (error) {
+      console.error('Failed to load session:', error)
+    }
+  }
+
+  const loadSuggestions = async () => {
+    try {
+      const response = await fetch('/api/departments/duplicates')
+      if (response.ok) {
+        setSuggestions(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to load duplicate departments:', error)
+    }
+  }
+
+  const loadDepartments = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/departments')
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to fetch departments')
+        return
+      }
+      setDepartments(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch departments')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreateError('')
+
+    if (!name.trim()) {
+      setCreateError('Name is required')
+      return
+    }
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/departments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), description: description.trim() || undefined }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setCreateError(data.error || 'Failed to create department')
+        return
+      }
+      setName('')
+      setDescription('')
+      await Promise.all([loadDepartments(), loadSuggestions()])
+    } catch {
+      setCreateError('An error occurred. Please try again.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const runAction = async (id: string, url: string, init: RequestInit, failure: string) => {
+    setBusyId(id)
+    try {
+      const response = await fetch(url, init)
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || failure)
+        return
+      }
+      await Promise.all([loadDepartments(), loadSuggestions()])
+    } catch (e) {
+      console.error(`${failure}:`, e)
+      alert(`An error occurred: ${failure.toLowerCase()}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRename = async (department: DepartmentSummary) => {
+    const value = prompt(`Rename "${department.name}" for all ${department.signerCount} signer(s) to:`, department.name)
+    if (value === null || !value.trim() || value.trim() === department.name) return
+    await runAction(
+      department.id,
+      `/api/departments/${department.id}`,
+      { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ name: value.trim() }) },
+      'Failed to rename department'
+    )
+  }
+
+  const handleMerge = async (source: { id: string; name: string; signerCount: number }, targetId: string) => {
+    const target = departments.find((d) => d.id === targetId)
+    if (!target) return
+    if (!confirm(`Merge "${source.name}" into "${target.name}"? Its ${source.signerCount} signer(s) move to "${target.name}" and "${source.name}" is deleted.`)) {
+      return
+    }
+    await runAction(
+      source.id,
+      `/api/departments/${source.id}/merge`,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ targetId }) },
+      'Failed to merge department'
+    )
+  }
+
+  const handleDelete = async (department: DepartmentSummary) => {
+    if (!confirm(`Delete department "${department.name}"? Its ${department.signerCount} signer(s) are left without a department.`)) {
+      return
+    }
+    await runAction(department.id, `/api/departments/${department.id}`, { method: 'DELETE' }, 'Failed to delete department')
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-black">Departments</h1>
+        <p className="mt-1 text-sm text-black">
+          Safes reached counts wallets with at least one owner from the department; controlled alone counts those whose threshold the department&apos;s owners can meet without anyone else. Both use the latest on-chain snapshots.
+        </p>
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleCreate} className="mb-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 text-xl font-semibold text-black">Create department</h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-black">
+                Name
+              </label>
+              <input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 block w-56 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="description" className="block text-sm font-medium text-black">
+                Description
+              </label>
+              <input
+                id="description"
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={creating}
+              className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {creating ? 'Creating...' : 'Create department'}
+            </button>
+          </div>
+          {createError && (
+            <div className="mt-4 rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-800">{createError}</p>
+            </div>
+          )}
+        </form>
+      )}
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load departments</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {canManage && suggestions.length > 0 && (
+        <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+          <div className="font-semibold">Possible duplicates to review</div>
+          <p className="mt-1">
+            These look like different spellings of the same department. Merging moves the signers and keeps their history pointing at the remaining name.
+          </p>
+          <ul className="mt-3 space-y-2">
+            {suggestions.map(({ source, target, reason }) => (
+              <li key={`${source.id}-${target.id}`} className="flex flex-wrap items-center gap-2">
+                <span>
+                  <strong>{source.name}</strong> ({source.signerCount}) and <strong>{target.name}</strong> ({target.signerCount})
+                  {' · '}
+                  {reason}
+                </span>
+                <button
+                  onClick={() => handleMerge(source, target.id)}
+                  disabled={busyId !== null}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                >
+                  Merge into {target.name}
+                </button>
+                <button
+                  onClick={() => handleMerge(target, source.id)}
+                  disabled={busyId !== null}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                >
+                  Merge into {source.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Department</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Description</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Signers</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Safes reached</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Controlled alone</th>
+                {canManage && (
+                  <>
+                    <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Merge into</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Actions</th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {departments.length === 0 ? (
+                <tr>
+                  <td colSpan={canManage ? 7 : 5} className="px-6 py-4 text-center text-black">
+                    No departments yet
+                  </td>
+                </tr>
+              ) : (
+                departments.map((department) => (
+                  <tr key={department.id} className="hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-6 py-4">
+                      <Link href={`/departments/${department.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                        {department.name}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-black">{department.description || '—'}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{department.signerCount}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{department.safeCount}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      {department.soleControlCount > 0 ? (
+                        <span className="rounded bg-yellow-100 px-2 py-1 text-xs font-medium text-yellow-800">
+                          {department.soleControlCount}
+                        </span>
+                      ) : (
+                        <span className="text-black">0</span>
+                      )}
+                    </td>
+                    {canManage && (
+                      <>
+                        <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                          <select
+                            value=""
+                            onChange={(e) => handleMerge(department, e.target.value)}
+                            disabled={busyId !== null || departments.length < 2}
+                            className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black disabled:opacity-60"
+                          >
+                            <option value="">Select department...</option>
+                            {departments
+                              .filter((d) => d.id !== department.id)
+                              .map((d) => (
+                                <option key={d.id} value={d.id}>
+                                  {d.name}
+                                </option>
+                              ))}
+                          </select>
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4 text-sm">
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleRename(department)}
+                              disabled={busyId !== null}
+                              className="rounded-md bg-gray-100 px-3 py-1 text-xs font-medium text-black hover:bg-gray-200 disabled:opacity-60"
+                            >
+                              Rename
+                            </button>
+                            <button
+                              onClick={() => handleDelete(department)}
+                              disabled={busyId !== null}
+                              className="rounded-md bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-60"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import ChainBadge from '@/components/ChainBadge'
+import AddressDisplay from '@/components/AddressDisplay'
+import LoginModal from '@/components/LoginModal'
+import SignerStatusBadge from '@/components/SignerStatusBadge'
+import type { WalletDrift, DriftOwner } from '@/types'
+import type { Permission } from '@/lib/permissions'
+
+export default function DriftPage() {
+  const [report, setReport] = useState<WalletDrift[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showAll, setShowAll] = useState(false)
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  const [showLoginModal, setShowLoginModal] = useState(false)
+  const [busyWalletId, setBusyWalletId] = useState<string | null>(null)
+
+  const canManageWallets = permissions.includes('wallet:manage')
+
+  useEffect(() => {
+    loadReport()
+    loadSession()
+  }, [])
+
+  const loadSession = async () => {
+    try {
+      const response = await fetch('/api/auth/session')
+      if (response.ok) {
+        const session = await response.json()
+        setPermissions(session.permissions || [])
+      }
+    } catch (error) {
+      console.error('Failed to load session:', error)
+    }
+  }
+
+  const loadReport = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/drift')
+      if (!response.ok) {
+        console.error('Failed to fetch drift report:', response.statusText)
+        return
+      }
+      const data = await response.json()
+      setReport(data)
+    } catch (error) {
+      console.error('Failed to load drift report:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const replaceRow = (drift: WalletDrift) => {
+    setReport((rows) => rows.map((row) => (row.walletId === drift.walletId ? drift : row)))
+  }
+
+  const checkLive = async (walletId: string) => {
+    setBusyWalletId(walletId)
+    setError(null)
+    try {
+      const response = await fetch(`/api/wallets/${walletId}/drift`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to check live owners')
+        return
+      }
+      replaceRow(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to check live owners')
+    } finally {
+      setBusyWalletId(null)
+    }
+  }
+
+  const reconcile = async (drift: WalletDrift) => {
+    if (!canManageWallets) {
+      setShowLoginModal(true)
+      return
+    }
+
+    const acknowledgement = drift.thresholdChange ? ' and accept the new threshold' : ''
+    if (!confirm(`Rewrite signer links for ${drift.name || drift.address} to match the live Safe owners${acknowledgement}?`)) {
+      return
+    }
+
+    setBusyWalletId(drift.walletId)
+    setError(null)
+    try {
+      const response = await fetch(`/api/wallets/${drift.walletId}/reconcile`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to reconcile wallet')
+        return
+      }
+      replaceRow(data.drift)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to reconcile wallet')
+    } finally {
+      setBusyWalletId(null)
+    }
+  }
+
+  const renderOwners = (owners: DriftOwner[]) => {
+    if (owners.length === 0) {
+      return <span className="text-sm text-black">-</span>
+    }
+    return (
+      <div className="space-y-1">
+        {owners.map((owner) => (
+          <div key={owner.address} className="flex items-center gap-2">
+            <AddressDisplay
+              address={owner.address}
+              name={owner.signerName}
+              signerId={owner.signerId}
+              linkToSigner={!!owner.signerId}
+            />
+            {!owner.signerId && (
+              <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-black">Unknown</span>
+            )}
+            {owner.signerStatus && (owner.signerDeletedAt || owner.signerStatus === 'offboarded') && (
+              <SignerStatusBadge status={owner.signerStatus} deletedAt={owner.signerDeletedAt} />
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const rows = showAll ? report : report.filter((row) => row.hasDrift)
+  const neverFetched = report.filter((row) => !row.snapshotAt).length
+
+  return (
+    <div>
+      <LoginModal
+        isOpen={showLoginModal}
+        onClose={() => setShowLoginModal(false)}
+        onSuccess={loadSession}
+        message="You need to login to reconcile signer links."
+      />
+
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-black">Ownership Drift</h1>
+        <label className="flex items-center gap-2 text-sm text-black">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+          />
+          Show wallets without drift
+        </label>
+      </div>
+
+      <p className="mb-4 text-sm text-black">
+        Compares DB signer links against the latest on-chain snapshot of each Safe.
+        {neverFetched > 0 && ` ${neverFetched} wallet(s) have no snapshot yet and cannot be compared.`}
+      </p>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : rows.length === 0 ? (
+        <div className="py-8 text-center text-black">No drift detected</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                  Wallet
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                  On-chain, not linked
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                  Linked, no longer owner
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                  Threshold
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {rows.map((row) => (
+                <tr key={row.walletId} className="align-top hover:bg-gray-50">
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <Link
+                      href={`/wallets/${row.walletId}`}
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {row.name || row.address.slice(0, 10) + '...'}
+                    </Link>
+                    <div className="mt-1">
+                      <ChainBadge chainId={row.chainId} />
+                    </div>
+                    <p className="mt-1 text-xs text-black">
+                      {row.snapshotAt
+                        ? `Checked ${new Date(row.snapshotAt).toLocaleString()}`
+                        : 'Never checked'}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">{renderOwners(row.missingLinks)}</td>
+                  <td className="px-6 py-4">{renderOwners(row.staleLinks)}</td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                    {row.thresholdChange
+                      ? `${row.thresholdChange.previous} → ${row.thresholdChange.current}`
+                      : '-'}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => checkLive(row.walletId)}
+                        disabled={busyWalletId === row.walletId}
+                        className="rounded-md bg-gray-100 px-3 py-1 text-xs font-medium text-black hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        Check live
+                      </button>
+                      {canManageWallets && (
+                        <button
+                          onClick={() => reconcile(row)}
+                          disabled={busyWalletId === row.walletId}
+                          className="rounded-md bg-indigo-600 px-3 py-1 text-xs font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                          {busyWalletId === row.walletId ? 'Working…' : 'Reconcile'}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
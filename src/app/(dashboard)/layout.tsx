@@ -1,4 +1,5 @@
 import { getSession } from '@/lib/auth'
+import { isRole, ROLE_LABELS } from '@/lib/permissions'
 import LogoutButton from '@/components/LogoutButton'
 import Navigation from '@/components/Navigation'
 import Link from 'next/link'
@@ -23,12 +24,36 @@ export default async function DashboardLayout({
                 <>
                   <span className="mr-4 text-sm text-black">
                     Logged in as <strong>{session.username}</strong>
-                    {session.isAdmin && (
-                      <span className="ml-2 rounded bg-indigo-100 px-2 py-1 text-xs font-medium text-black">
-                        Admin
-                      </span>
-                    )}
+                    <span className="ml-2 rounded bg-indigo-100 px-2 py-1 text-xs font-medium text-black">
+                      {isRole(session.role) ? ROLE_LABELS[session.role] : session.role}
+                    </span>
                   </span>
+                  {session.permissions.includes('user:manage') && (
+                    <>
+                      <Link href="/users" className="mr-4 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                        Users
+                      </Link>
+                      <Link href="/sessions" className="mr-4 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                        Sessions
+                      </Link>
+                    </>
+                  )}
+                  {session.permissions.includes('tag:manage') && (
+                    <Link href="/tags" className="mr-4 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                      Tags
+                    </Link>
+                  )}
+                  {session.permissions.includes('audit:view') && (
+                    <Link href="/audit" className="mr-4 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                      Audit log
+                    </Link>
+                  )}
+                  <Link href="/account/password" className="mr-4 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                    Change password
+                  </Link>
+                  <Link href="/account/two-factor" className="mr-4 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                    Two-factor
+                  </Link>
                   <LogoutButton />
                 </>
               ) : (
@@ -36,7 +61,7 @@ export default async function DashboardLayout({
                   href="/login"
                   className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
                 >
-                  Login as admin
+                  Login
                 </Link>
               )}
             </div>
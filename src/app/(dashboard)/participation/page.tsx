@@ -0,0 +1,150 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { ParticipationReport } from '@/types'
+
+export default function ParticipationPage() {
+  const [report, setReport] = useState<ParticipationReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [dormantDays, setDormantDays] = useState('')
+  const [dormantOnly, setDormantOnly] = useState(false)
+
+  useEffect(() => {
+    loadReport()
+  }, [])
+
+  const loadReport = async (days?: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const query = days ? `?dormantDays=${encodeURIComponent(days)}` : ''
+      const response = await fetch(`/api/participation${query}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to fetch participation report')
+        return
+      }
+      setReport(data)
+      setDormantDays(String(data.dormantDays))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch participation report')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rows = report?.signers.filter((s) => !dormantOnly || s.dormant) || []
+  const dormantCount = report?.signers.filter((s) => s.dormant).length || 0
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-black">Signer Participation</h1>
+        <p className="mt-1 text-sm text-black">
+          Confirmations on executed multisig transactions of tracked wallets.
+          {report && (
+            <>
+              {' '}
+              {report.lastSyncedAt
+                ? `Last synced ${new Date(report.lastSyncedAt).toLocaleString()}.`
+                : 'No confirmations have been synced yet.'}
+              {report.backfillPendingWallets > 0 &&
+                ` Older history of ${report.backfillPendingWallets} wallet(s) is still being synced, so counts may be low.`}
+            </>
+          )}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load participation report</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="dormantDays" className="block text-xs font-medium text-black mb-1">
+            Dormant after (days)
+          </label>
+          <input
+            id="dormantDays"
+            type="number"
+            min={1}
+            value={dormantDays}
+            onChange={(e) => setDormantDays(e.target.value)}
+            className="w-28 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+          />
+        </div>
+        <button
+          onClick={() => loadReport(dormantDays)}
+          disabled={loading}
+          className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+        >
+          Apply
+        </button>
+        <label className="flex items-center gap-2 pb-2 text-sm text-black">
+          <input type="checkbox" checked={dormantOnly} onChange={(e) => setDormantOnly(e.target.checked)} />
+          Only dormant signers ({dormantCount})
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Signer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Department</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Last 30 days</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Last 90 days</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Last confirmation</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-black">
+                    No signers found
+                  </td>
+                </tr>
+              ) : (
+                rows.map((row) => (
+                  <tr key={row.signerId} className="hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-6 py-4">
+                      <Link href={`/signers/${row.signerId}`} className="font-medium text-blue-600 hover:text-blue-800">
+                        {row.signerName}
+                      </Link>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{row.department || '-'}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{row.confirmations30d}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{row.confirmations90d}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {row.lastConfirmedAt ? new Date(row.lastConfirmedAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      {row.dormant ? (
+                        <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-800">
+                          Dormant
+                        </span>
+                      ) : (
+                        <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-800">
+                          Active
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { isRole, ROLE_LABELS } from '@/lib/permissions'
+import type { ActiveSession } from '@/types'
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const loadSessions = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/sessions')
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to fetch sessions')
+        return
+      }
+      setSessions(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRevoke = async (session: ActiveSession) => {
+    const prompt = session.current
+      ? 'This is your current session. Revoking it will log you out. Continue?'
+      : `Revoke this session for ${session.username}?`
+    if (!confirm(prompt)) return
+
+    setBusyId(session.id)
+    try {
+      const response = await fetch(`/api/sessions/${session.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to revoke session')
+        return
+      }
+      if (session.current) {
+        window.location.href = '/wallets'
+        return
+      }
+      await loadSessions()
+    } catch (e) {
+      console.error('Failed to revoke session:', e)
+      alert('An error occurred while revoking the session')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRevokeAll = async (session: ActiveSession) => {
+    if (!confirm(`Log ${session.username} out of every session?`)) return
+
+    setBusyId(session.userId)
+    try {
+      const response = await fetch(`/api/sessions?userId=${encodeURIComponent(session.userId)}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to revoke sessions')
+        return
+      }
+      if (sessions.some((s) => s.current && s.userId === session.userId)) {
+        window.location.href = '/wallets'
+        return
+      }
+      await loadSessions()
+    } catch (e) {
+      console.error('Failed to revoke sessions:', e)
+      alert('An error occurred while revoking the sessions')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-black">Active Sessions</h1>
+        <p className="mt-1 text-sm text-black">
+          Everyone currently logged in. Revoked sessions stop working on their next request.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load sessions</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Logged in</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Last seen</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">IP</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Browser</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {sessions.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-black">
+                    No active sessions
+                  </td>
+                </tr>
+              ) : (
+                sessions.map((session) => (
+                  <tr key={session.id} className="hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      <span className="font-medium">{session.username}</span>
+                      <span className="ml-2 rounded bg-indigo-100 px-2 py-1 text-xs font-medium text-black">
+                        {isRole(session.role) ? ROLE_LABELS[session.role] : session.role}
+                      </span>
+                      {session.current && (
+                        <span className="ml-2 rounded bg-green-100 px-2 py-1 text-xs font-medium text-green-800">
+                          This session
+                        </span>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {new Date(session.createdAt).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {new Date(session.lastSeenAt).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 font-mono text-sm text-black">{session.ip || '—'}</td>
+                    <td className="max-w-xs truncate px-6 py-4 text-sm text-black" title={session.userAgent || undefined}>
+                      {session.userAgent || '—'}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleRevoke(session)}
+                          disabled={busyId !== null}
+                          className="rounded-md bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-60"
+                        >
+                          Revoke
+                        </button>
+                        <button
+                          onClick={() => handleRevokeAll(session)}
+                          disabled={busyId !== null}
+                          className="rounded-md bg-gray-100 px-3 py-1 text-xs font-medium text-black hover:bg-gray-200 disabled:opacity-60"
+                          title="Revoke every session for this user"
+                        >
+                          Log out everywhere
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
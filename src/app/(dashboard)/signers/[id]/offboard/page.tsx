@@ -0,0 +1,80 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import OwnerChangePlanView from '@/components/OwnerChangePlanView'
+import type { OwnerChangePlan } from '@/types'
+
+export default function OffboardSignerPage() {
+  const params = useParams()
+  const signerId = params.id as string
+  const [plan, setPlan] = useState<OwnerChangePlan | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPlan = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/signers/${signerId}/offboarding`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to build offboarding plan')
+        return
+      }
+      setPlan(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to build offboarding plan')
+    } finally {
+      setLoading(false)
+    }
+  }, [signerId])
+
+  useEffect(() => {
+    loadPlan()
+  }, [loadPlan])
+
+  const safeCount = plan?.chains.reduce((sum, chain) => sum + chain.safes.length, 0) || 0
+  const blockedCount =
+    plan?.chains.reduce((sum, chain) => sum + chain.safes.filter((safe) => safe.blockedReason).length, 0) || 0
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-black">Offboard Signer</h1>
+          {plan && (
+            <p className="mt-1 text-sm text-black">
+              <Link href={`/signers/${signerId}`} className="text-blue-600 hover:text-blue-800">
+                {plan.signerName}
+              </Link>{' '}
+              — {plan.addresses.length} address(es), owner on {safeCount} Safe(s)
+              {blockedCount > 0 && `, ${blockedCount} blocked`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={loadPlan}
+          disabled={loading}
+          className="rounded-md bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+        >
+          {loading ? 'Scanning chains…' : 'Rescan'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not build offboarding plan</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Looking up Safes on every supported chain…</div>
+      ) : plan ? (
+        <OwnerChangePlanView plan={plan} filePrefix={`offboard-${plan.signerName.replace(/\s+/g, '-').toLowerCase()}`} />
+      ) : null}
+    </div>
+  )
+}
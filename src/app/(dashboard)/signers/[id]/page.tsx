@@ -7,8 +7,12 @@ import ChainBadge from '@/components/ChainBadge'
 import AddressDisplay from '@/components/AddressDisplay'
 import LoginModal from '@/components/LoginModal'
 import EditSignerModal from '@/components/EditSignerModal'
+import ChainCoverageStrip from '@/components/ChainCoverageStrip'
+import SignerStatusBadge from '@/components/SignerStatusBadge'
+import CustodyBadge from '@/components/CustodyBadge'
 import { getExplorerUrl, generateAddressLabels } from '@/lib/utils'
-import type { SignerWithWallets } from '@/types'
+import type { SignerWithWallets, LiveWalletsResponse } from '@/types'
+import type { Permission } from '@/lib/permissions'
 
 export default function SignerDetailPage() {
   const router = useRouter()
@@ -19,12 +23,15 @@ export default function SignerDetailPage() {
 
   const [signer, setSigner] = useState<SignerWithWallets | null>(null)
   const [loading, setLoading] = useState(true)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [permissions, setPermissions] = useState<Permission[]>([])
   const [showEditModal, setShowEditModal] = useState(false)
   const [showLoginModal, setShowLoginModal] = useState(false)
   const [liveLoading, setLiveLoading] = useState(false)
   const [liveError, setLiveError] = useState<string | null>(null)
   const [liveLoaded, setLiveLoaded] = useState(false)
+  const [liveChains, setLiveChains] = useState<LiveWalletsResponse['chains'] | null>(null)
+
+  const canManageSigners = permissions.includes('signer:manage')
 
   useEffect(() => {
     loadSigner()
@@ -36,7 +43,7 @@ export default function SignerDetailPage() {
       const response = await fetch('/api/auth/session')
       if (response.ok) {
         const session = await response.json()
-        setIsAdmin(session.isAdmin || false)
+        setPermissions(session.permissions || [])
       }
     } catch (error) {
       console.error('Failed to load session:', error)
@@ -63,13 +70,14 @@ export default function SignerDetailPage() {
       try {
         const raw = sessionStorage.getItem(liveCacheKey)
         if (raw) {
-          const cached = JSON.parse(raw) as { ts: number; wallets: SignerWithWallets['wallets'] }
+          const cached = JSON.parse(raw) as { ts: number } & Partial<LiveWalletsResponse>
           if (
             typeof cached?.ts === 'number' &&
             Date.now() - cached.ts < LIVE_CACHE_TTL_MS &&
             Array.isArray(cached.wallets)
           ) {
             setSigner({ ...data, wallets: cached.wallets })
+            setLiveChains(cached.chains || null)
             setLiveLoaded(true)
           }
         }
@@ -84,7 +92,7 @@ export default function SignerDetailPage() {
   }
 
   const handleEdit = () => {
-    if (!isAdmin) {
+    if (!canManageSigners) {
       setShowLoginModal(true)
       return
     }
@@ -92,12 +100,16 @@ export default function SignerDetailPage() {
   }
 
   const handleDelete = async () => {
-    if (!isAdmin) {
+    if (!canManageSigners) {
       setShowLoginModal(true)
       return
     }
 
-    if (!confirm(`Are you sure you want to delete signer ${signer?.name}? This action cannot be undone.`)) {
+    if (
+      !confirm(
+        `Remove signer ${signer?.name}? They are marked offboarded and hidden from the signer list. Their addresses are kept so Safes that still list them are flagged.`
+      )
+    ) {
       return
     }
 
@@ -120,6 +132,27 @@ export default function SignerDetailPage() {
     }
   }
 
+  const handleRestore = async () => {
+    try {
+      const response = await fetch(`/api/signers/${signerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deleted: false }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to restore signer')
+        return
+      }
+
+      loadSigner()
+    } catch (error) {
+      console.error('Failed to restore signer:', error)
+      alert('An error occurred while restoring the signer')
+    }
+  }
+
 
   const fetchLiveWallets = async () => {
     if (!signer) return
@@ -135,13 +168,14 @@ export default function SignerDetailPage() {
         setLiveError(data?.error || 'Failed to fetch live wallets')
         return
       }
-      const wallets = data.wallets || []
+      const { wallets = [], chains = {} } = data as LiveWalletsResponse
       setSigner({ ...signer, wallets })
+      setLiveChains(chains)
       setLiveLoaded(true)
 
       // Persist live wallets for a short time so back/forward navigation feels smooth.
       try {
-        sessionStorage.setItem(liveCacheKey, JSON.stringify({ ts: Date.now(), wallets }))
+        sessionStorage.setItem(liveCacheKey, JSON.stringify({ ts: Date.now(), wallets, chains }))
       } catch {
         // Ignore storage errors (private browsing, quota, etc.)
       }
@@ -197,26 +231,64 @@ export default function SignerDetailPage() {
           >
             {liveLoading ? 'Fetching…' : liveLoaded ? 'Refresh live wallets' : 'Fetch live wallets (Safe)'}
           </button>
+          <Link
+            href={`/signers/${signerId}/pending`}
+            className="rounded-md bg-sky-600 px-4 py-2 text-sm font-medium text-white hover:bg-sky-700"
+            title="Transactions across every Safe and chain still waiting for this signer's confirmation"
+          >
+            Pending signatures
+          </Link>
 
-          {isAdmin && (
+          {canManageSigners && (
             <>
-              <button
-                onClick={handleEdit}
-                className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
-              >
-                Edit Details
-              </button>
-              <button
-                onClick={handleDelete}
-                className="rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+              {!signer.deletedAt && (
+                <button
+                  onClick={handleEdit}
+                  className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  Edit Details
+                </button>
+              )}
+              <Link
+                href={`/signers/${signerId}/offboard`}
+                className="rounded-md bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700"
+                title="Generate Safe owner-removal transactions for every Safe this signer is an owner of"
               >
-                Delete
-              </button>
+                Offboard signer
+              </Link>
+              {!signer.deletedAt && (
+                <button
+                  onClick={handleDelete}
+                  className="rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+                >
+                  Remove
+                </button>
+              )}
             </>
           )}
         </div>
       </div>
 
+      {signer.deletedAt && (
+        <div className="mb-6 flex items-center justify-between rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div>
+            <div className="font-semibold">Removed signer</div>
+            <div className="mt-1">
+              Removed on {new Date(signer.deletedAt).toLocaleDateString()}. Their addresses are kept so Safes that still
+              list them as owners are flagged.
+            </div>
+          </div>
+          {canManageSigners && (
+            <button
+              onClick={handleRestore}
+              className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-black hover:bg-gray-50"
+            >
+              Restore
+            </button>
+          )}
+        </div>
+      )}
+
       {liveError && (
         <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
           <div className="font-semibold">Live lookup failed</div>
@@ -231,10 +303,27 @@ export default function SignerDetailPage() {
             <label className="text-sm font-medium text-black">Name</label>
             <p className="mt-1 text-lg font-semibold text-black">{signer.name}</p>
           </div>
-          {signer.department && (
+          <div>
+            <label className="text-sm font-medium text-black">Status</label>
+            <p className="mt-1 text-sm text-black">
+              <SignerStatusBadge
+                status={signer.status}
+                since={signer.statusSince}
+                until={signer.statusUntil}
+                deletedAt={signer.deletedAt}
+              />{' '}
+              since {new Date(signer.statusSince).toLocaleDateString()}
+              {signer.statusUntil && `, expected back ${new Date(signer.statusUntil).toLocaleDateString()}`}
+            </p>
+          </div>
+          {signer.departmentId && (
             <div>
               <label className="text-sm font-medium text-black">Department</label>
-              <p className="mt-1 text-sm text-black">{signer.department}</p>
+              <p className="mt-1 text-sm">
+                <Link href={`/departments/${signer.departmentId}`} className="text-blue-600 hover:text-blue-800">
+                  {signer.department}
+                </Link>
+              </p>
             </div>
           )}
         </div>
@@ -259,34 +348,58 @@ export default function SignerDetailPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
                     Type
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                    Address Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                    Custody
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
                     Department
                   </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 bg-white">
-                {generateAddressLabels(signer.name, signer.addresses).map((addr) => (
-                  <tr key={addr.id} className="hover:bg-gray-50">
-                    <td className="whitespace-nowrap px-6 py-4">
-                      <AddressDisplay
-                        address={addr.address}
-                        name={null}
-                        signerId={signer.id}
-                        showFull={true}
-                        linkToSigner={false}
-                      />
-                    </td>
-                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
-                      {addr.displayName}
-                    </td>
-                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
-                      {addr.displayType}
-                    </td>
-                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
-                      {signer.department || '-'}
-                    </td>
-                  </tr>
-                ))}
+                {generateAddressLabels(signer.name, signer.addresses).map((addr) => {
+                  const details = signer.addresses.find((a) => a.id === addr.id)
+                  const custody = [
+                    details?.serialRef && `Serial ${details.serialRef}`,
+                    details?.storageLocation,
+                    details?.acquiredAt && `Acquired ${new Date(details.acquiredAt).toLocaleDateString()}`,
+                  ].filter(Boolean)
+                  return (
+                    <tr key={addr.id} className="hover:bg-gray-50">
+                      <td className="whitespace-nowrap px-6 py-4">
+                        <AddressDisplay
+                          address={addr.address}
+                          name={null}
+                          signerId={signer.id}
+                          showFull={true}
+                          linkToSigner={false}
+                        />
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {addr.displayName}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {addr.displayType}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {details?.addressType ? (
+                          <CustodyBadge custody={details.addressType.custody} label={details.addressType.name} />
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-black">
+                        {custody.length > 0 ? custody.join(' · ') : '-'}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {signer.department || '-'}
+                      </td>
+                    </tr>
+                  )
+                })}
               </tbody>
             </table>
           </div>
@@ -296,11 +409,14 @@ export default function SignerDetailPage() {
       {/* Multisig Access Section */}
       <div className="rounded-lg bg-white p-6 shadow">
         <h2 className="mb-4 text-xl font-semibold text-black">Multisig Wallets</h2>
+        {liveLoaded && liveChains && <ChainCoverageStrip chains={liveChains} />}
         {signer.wallets.length === 0 ? (
           <p className="text-black">
-            {liveLoaded
-              ? 'This signer is not an owner of any wallets (based on live Safe lookup).'
-              : 'No wallets linked in DB yet. Click “Fetch live wallets (Safe)” to check ownership.'}
+            {!liveLoaded
+              ? 'No wallets linked in DB yet. Click “Fetch live wallets (Safe)” to check ownership.'
+              : liveChains && Object.values(liveChains).some((chain) => chain.status === 'error')
+                ? 'No wallets found on the chains that responded. Some chains failed — refresh to retry.'
+                : 'This signer is not an owner of any wallets (based on live Safe lookup).'}
           </p>
         ) : (
           <div className="overflow-x-auto">
@@ -0,0 +1,178 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { formatEther } from 'ethers'
+import ChainBadge from '@/components/ChainBadge'
+import AddressDisplay from '@/components/AddressDisplay'
+import type { SignerPendingSignatures } from '@/types'
+
+function formatAge(submissionDate: string): string {
+  const hours = Math.floor((Date.now() - new Date(submissionDate).getTime()) / 3_600_000)
+  if (hours < 1) return '< 1h'
+  if (hours < 48) return `${hours}h`
+  return `${Math.floor(hours / 24)}d`
+}
+
+export default function SignerPendingSignaturesPage() {
+  const params = useParams()
+  const signerId = params.id as string
+  const [pending, setPending] = useState<SignerPendingSignatures | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [blockedOnly, setBlockedOnly] = useState(false)
+
+  const loadPending = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/signers/${signerId}/pending`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to fetch pending signatures')
+        return
+      }
+      setPending(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch pending signatures')
+    } finally {
+      setLoading(false)
+    }
+  }, [signerId])
+
+  useEffect(() => {
+    loadPending()
+  }, [loadPending])
+
+  const blockedCount = pending?.transactions.filter((tx) => tx.blockedOnSigner).length || 0
+  const transactions = pending?.transactions.filter((tx) => !blockedOnly || tx.blockedOnSigner) || []
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-black">Pending Signatures</h1>
+          {pending && (
+            <p className="mt-1 text-sm text-black">
+              <Link href={`/signers/${signerId}`} className="text-blue-600 hover:text-blue-800">
+                {pending.signerName}
+              </Link>{' '}
+              — {pending.transactions.length} transaction(s) awaiting confirmation
+              {blockedCount > 0 && `, ${blockedCount} blocked only on this signer`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={loadPending}
+          disabled={loading}
+          className="rounded-md bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-60"
+        >
+          {loading ? 'Scanning chains…' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load pending signatures</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {pending && pending.errors.length > 0 && (
+        <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+          <div className="font-semibold">Some queues could not be fetched — results may be incomplete</div>
+          <ul className="mt-1 list-disc pl-5">
+            {pending.errors.map((e) => (
+              <li key={`${e.safeAddress}-${e.chainId}-${e.error}`}>
+                {e.safeAddress ? <span className="font-mono">{e.safeAddress}</span> : 'Safe lookup'} on chain {e.chainId}:{' '}
+                {e.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Looking up Safe queues on every supported chain…</div>
+      ) : pending ? (
+        <div className="rounded-lg bg-white p-6 shadow">
+          <label className="mb-4 flex items-center gap-2 text-sm text-black">
+            <input
+              type="checkbox"
+              checked={blockedOnly}
+              onChange={(e) => setBlockedOnly(e.target.checked)}
+            />
+            Only show transactions blocked on this signer
+          </label>
+
+          {transactions.length === 0 ? (
+            <p className="text-black">Nothing is waiting for this signer.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Age</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Safe</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Network</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Nonce</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Target</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Value</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Method</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Confirmations</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {transactions.map((tx) => (
+                    <tr
+                      key={`${tx.safeTxHash}-${tx.chainId}`}
+                      className={tx.blockedOnSigner ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}
+                    >
+                      <td
+                        className="whitespace-nowrap px-4 py-4 text-sm text-black"
+                        title={new Date(tx.submissionDate).toLocaleString()}
+                      >
+                        {formatAge(tx.submissionDate)}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4">
+                        {tx.walletId ? (
+                          <Link href={`/wallets/${tx.walletId}`} className="font-medium text-blue-600 hover:text-blue-800">
+                            {tx.safeName || tx.safeAddress}
+                          </Link>
+                        ) : (
+                          <AddressDisplay address={tx.safeAddress} name={tx.safeName} linkToSigner={false} />
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4">
+                        <ChainBadge chainId={tx.chainId} />
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4 text-sm text-black">{tx.nonce}</td>
+                      <td className="whitespace-nowrap px-4 py-4">
+                        <AddressDisplay address={tx.to} linkToSigner={false} />
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4 text-sm text-black">
+                        {tx.value === '0' ? '0' : formatEther(tx.value)}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4 font-mono text-xs text-black">
+                        {tx.method || 'transfer / unknown'}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4 text-sm text-black">
+                        {tx.confirmationsCollected} / {tx.confirmationsRequired}
+                        {tx.blockedOnSigner && (
+                          <span className="ml-2 rounded-full bg-amber-200 px-2 py-0.5 text-xs font-semibold text-amber-900">
+                            Blocked on signer
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -1,67 +1,95 @@
 'use client'
 
-import { useEffect, useState, useMemo } from 'react'
+import { useCallback, useEffect, useState, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import AddressDisplay from '@/components/AddressDisplay'
 import LoginModal from '@/components/LoginModal'
 import AddUserModal from '@/components/AddUserModal'
+import SignerStatusBadge from '@/components/SignerStatusBadge'
 import { extractNameAndType } from '@/lib/utils'
+import { SIGNER_STATUSES, SIGNER_STATUS_LABELS } from '@/lib/signer-status'
+import type { Permission } from '@/lib/permissions'
 
 interface SignerRow {
   id: string
   address: string
   signerId: string
   signerName: string
+  departmentId: string | null
   department: string | null
+  status: string
+  statusSince: string
+  statusUntil: string | null
+  deletedAt: string | null
   walletCount: number
   addressName: string | null
   addressType: string | null
+  lastConfirmedAt: string | null
+  lastOutgoingTxAt: string | null
+  lastActivity: string | null
 }
 
+const IDLE_FILTERS = [
+  { value: '', label: 'Any activity' },
+  { value: '30', label: 'Idle > 30 days' },
+  { value: '90', label: 'Idle > 90 days' },
+  { value: '180', label: 'Idle > 180 days' },
+  { value: '365', label: 'Idle > 1 year' },
+]
+
 export default function SignersPage() {
   const router = useRouter()
   const [signers, setSigners] = useState<SignerRow[]>([])
   const [filteredSigners, setFilteredSigners] = useState<SignerRow[]>([])
   const [loading, setLoading] = useState(true)
   const [search, setSearch] = useState('')
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [permissions, setPermissions] = useState<Permission[]>([])
   const [showLoginModal, setShowLoginModal] = useState(false)
   const [showAddUserModal, setShowAddUserModal] = useState(false)
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null)
+  const [idleDays, setIdleDays] = useState('')
+  const [statusFilter, setStatusFilter] = useState('') // A signer status, or 'removed'
+  const showRemoved = statusFilter === 'removed'
+
+  const canManageSigners = permissions.includes('signer:manage')
 
   useEffect(() => {
-    loadSigners()
     loadSession()
   }, [])
 
   useEffect(() => {
     filterSigners()
-  }, [search, signers])
+  }, [search, signers, statusFilter])
 
   const loadSession = async () => {
     try {
       const response = await fetch('/api/auth/session')
       if (response.ok) {
         const session = await response.json()
-        setIsAdmin(session.isAdmin || false)
+        setPermissions(session.permissions || [])
       } else if (response.status === 401) {
         // 401 is expected for unauthenticated users - not an error
-        setIsAdmin(false)
+        setPermissions([])
       }
     } catch (error) {
       // Only log unexpected errors
       if (process.env.NODE_ENV === 'development') {
         console.error('Failed to load session:', error)
       }
-      setIsAdmin(false)
+      setPermissions([])
     }
   }
 
-  const loadSigners = async () => {
+  const loadSigners = useCallback(async () => {
     setLoading(true)
     try {
-      const response = await fetch('/api/signers')
+      const params = new URLSearchParams()
+      if (idleDays) params.append('idleDays', idleDays)
+      // Removed signers are only listed when asked for
+      if (showRemoved) params.append('includeDeleted', 'true')
+
+      const response = await fetch(`/api/signers?${params.toString()}`)
       if (!response.ok) {
         console.error('Failed to fetch signers:', response.statusText)
         return
@@ -75,16 +103,23 @@ export default function SignersPage() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [idleDays, showRemoved])
+
+  useEffect(() => {
+    loadSigners()
+  }, [loadSigners])
 
   const filterSigners = () => {
+    const byStatus = signers.filter((row) =>
+      showRemoved ? row.deletedAt !== null : !statusFilter || row.status === statusFilter
+    )
     if (!search.trim()) {
-      setFilteredSigners(signers)
+      setFilteredSigners(byStatus)
       return
     }
 
     const searchLower = search.toLowerCase().trim()
-    const filtered = signers.filter((row) => {
+    const filtered = byStatus.filter((row) => {
       // Search by address (primary)
       if (row.address.toLowerCase().includes(searchLower)) return true
       
@@ -101,7 +136,7 @@ export default function SignersPage() {
   }
 
   const handleAddUser = () => {
-    if (!isAdmin) {
+    if (!canManageSigners) {
       setShowLoginModal(true)
       return
     }
@@ -271,7 +306,7 @@ export default function SignersPage() {
 
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-3xl font-bold text-black">Signers Directory</h1>
-        {isAdmin && (
+        {canManageSigners && (
           <button
             onClick={handleAddUser}
             className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
@@ -281,7 +316,7 @@ export default function SignersPage() {
         )}
       </div>
 
-      <div className="mb-4">
+      <div className="mb-4 flex gap-3">
         <input
           type="text"
           placeholder="Search by name, department, or address..."
@@ -289,13 +324,39 @@ export default function SignersPage() {
           onChange={(e) => setSearch(e.target.value)}
           className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black placeholder-gray-400 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
         />
+        <select
+          value={idleDays}
+          onChange={(e) => setIdleDays(e.target.value)}
+          className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+          title="Show only addresses without Safe confirmations or outgoing transactions in the chosen period"
+        >
+          {IDLE_FILTERS.map((filter) => (
+            <option key={filter.value} value={filter.value}>
+              {filter.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+          aria-label="Filter by status"
+        >
+          <option value="">Any status</option>
+          {SIGNER_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {SIGNER_STATUS_LABELS[status]}
+            </option>
+          ))}
+          <option value="removed">Removed</option>
+        </select>
       </div>
 
       {loading ? (
         <div className="py-8 text-center text-black">Loading...</div>
       ) : filteredSigners.length === 0 ? (
         <div className="py-8 text-center text-black">
-          {search ? 'No signers match your search' : 'No signers found'}
+          {search || idleDays || statusFilter ? 'No signers match your filters' : 'No signers found'}
         </div>
       ) : (
         <div className="overflow-x-auto rounded-lg bg-white shadow">
@@ -314,6 +375,12 @@ export default function SignersPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
                   Department
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                  Last Activity
+                </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200 bg-white">
@@ -349,7 +416,30 @@ export default function SignersPage() {
                     {row.displayType}
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
-                    {row.department || '-'}
+                    {row.departmentId ? (
+                      <Link href={`/departments/${row.departmentId}`} className="text-blue-600 hover:text-blue-800">
+                        {row.department}
+                      </Link>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm">
+                    <SignerStatusBadge
+                      status={row.status}
+                      since={row.statusSince}
+                      until={row.statusUntil}
+                      deletedAt={row.deletedAt}
+                    />
+                  </td>
+                  <td
+                    className="whitespace-nowrap px-6 py-4 text-sm text-black"
+                    title={[
+                      row.lastConfirmedAt && `Last Safe confirmation: ${new Date(row.lastConfirmedAt).toLocaleString()}`,
+                      row.lastOutgoingTxAt && `Last outgoing transaction: ${new Date(row.lastOutgoingTxAt).toLocaleString()}`,
+                    ].filter(Boolean).join('\n') || 'No recorded activity'}
+                  >
+                    {row.lastActivity ? new Date(row.lastActivity).toLocaleDateString() : 'Never'}
                   </td>
                 </tr>
               ))}
@@ -0,0 +1,317 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import WalletTag from '@/components/WalletTag'
+import { TAG_COLORS, type TagColor } from '@/lib/tag-colors'
+import type { TagWithUsage } from '@/types'
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<TagWithUsage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const [name, setName] = useState('')
+  const [color, setColor] = useState<TagColor>('gray')
+  const [description, setDescription] = useState('')
+  const [createError, setCreateError] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    loadTags()
+  }, [])
+
+  const loadTags = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/tags')
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to fetch tags')
+        return
+      }
+      setTags(data)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch tags')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreateError('')
+
+    if (!name.trim()) {
+      setCreateError('Name is required')
+      return
+    }
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/tags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), color, description: description.trim() || undefined }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setCreateError(data.error || 'Failed to create tag')
+        return
+      }
+      setName('')
+      setColor('gray')
+      setDescription('')
+      await loadTags()
+    } catch {
+      setCreateError('An error occurred. Please try again.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const runAction = async (tag: TagWithUsage, url: string, init: RequestInit, failure: string) => {
+    setBusyId(tag.id)
+    try {
+      const response = await fetch(url, init)
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || failure)
+        return
+      }
+      await loadTags()
+    } catch (e) {
+      console.error(`${failure}:`, e)
+      alert(`An error occurred: ${failure.toLowerCase()}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const updateTag = (tag: TagWithUsage, changes: Record<string, unknown>) =>
+    runAction(
+      tag,
+      `/api/tags/${tag.id}`,
+      { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(changes) },
+      'Failed to update tag'
+    )
+
+  const handleRename = async (tag: TagWithUsage) => {
+    const value = prompt(`Rename "${tag.name}" on all ${tag.walletCount} wallet(s) to:`, tag.name)
+    if (value === null || !value.trim() || value.trim() === tag.name) return
+    await updateTag(tag, { name: value.trim() })
+  }
+
+  const handleEditDescription = async (tag: TagWithUsage) => {
+    const value = prompt(`Description for "${tag.name}":`, tag.description || '')
+    if (value === null) return
+    await updateTag(tag, { description: value })
+  }
+
+  const handleMerge = async (tag: TagWithUsage, targetId: string) => {
+    const target = tags.find((t) => t.id === targetId)
+    if (!target) return
+    if (!confirm(`Merge "${tag.name}" into "${target.name}"? Its ${tag.walletCount} wallet(s) are retagged and "${tag.name}" is deleted.`)) {
+      return
+    }
+    await runAction(
+      tag,
+      `/api/tags/${tag.id}/merge`,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ targetId }) },
+      'Failed to merge tag'
+    )
+  }
+
+  const handleDelete = async (tag: TagWithUsage) => {
+    if (!confirm(`Delete tag "${tag.name}"? It is removed from ${tag.walletCount} wallet(s).`)) {
+      return
+    }
+    await runAction(tag, `/api/tags/${tag.id}`, { method: 'DELETE' }, 'Failed to delete tag')
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-black">Tags</h1>
+        <p className="mt-1 text-sm text-black">
+          The tags wallets can carry. Renaming or merging a tag updates every wallet that has it; new names typed when editing a wallet are added here in gray.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-xl font-semibold text-black">Create tag</h2>
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-black">
+              Name
+            </label>
+            <input
+              id="name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-56 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="color" className="block text-sm font-medium text-black">
+              Color
+            </label>
+            <select
+              id="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value as TagColor)}
+              className="mt-1 block w-36 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            >
+              {TAG_COLORS.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label htmlFor="description" className="block text-sm font-medium text-black">
+              Description
+            </label>
+            <input
+              id="description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={creating}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {creating ? 'Creating...' : 'Create tag'}
+          </button>
+        </div>
+        {createError && (
+          <div className="mt-4 rounded-md bg-red-50 p-3">
+            <p className="text-sm text-red-800">{createError}</p>
+          </div>
+        )}
+      </form>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load tags</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Tag</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Color</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Description</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Wallets</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Merge into</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {tags.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-black">
+                    No tags yet
+                  </td>
+                </tr>
+              ) : (
+                tags.map((tag) => (
+                  <tr key={tag.id} className="hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-6 py-4">
+                      <WalletTag tag={tag.name} color={tag.color} />
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      <select
+                        value={tag.color}
+                        onChange={(e) => updateTag(tag, { color: e.target.value })}
+                        disabled={busyId !== null}
+                        className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black disabled:opacity-60"
+                      >
+                        {TAG_COLORS.map((c) => (
+                          <option key={c} value={c}>
+                            {c}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-black">
+                      {tag.description || '—'}
+                      <button
+                        onClick={() => handleEditDescription(tag)}
+                        disabled={busyId !== null}
+                        className="ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                      >
+                        Edit
+                      </button>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {tag.walletCount > 0 ? (
+                        <Link
+                          href={`/wallets?tag=${encodeURIComponent(tag.name)}`}
+                          className="text-indigo-600 hover:text-indigo-800"
+                        >
+                          {tag.walletCount}
+                        </Link>
+                      ) : (
+                        0
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      <select
+                        value=""
+                        onChange={(e) => handleMerge(tag, e.target.value)}
+                        disabled={busyId !== null || tags.length < 2}
+                        className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black disabled:opacity-60"
+                      >
+                        <option value="">Select tag...</option>
+                        {tags
+                          .filter((t) => t.id !== tag.id)
+                          .map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.name}
+                            </option>
+                          ))}
+                      </select>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleRename(tag)}
+                          disabled={busyId !== null}
+                          className="rounded-md bg-gray-100 px-3 py-1 text-xs font-medium text-black hover:bg-gray-200 disabled:opacity-60"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          onClick={() => handleDelete(tag)}
+                          disabled={busyId !== null}
+                          className="rounded-md bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-60"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
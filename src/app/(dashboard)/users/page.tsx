@@ -0,0 +1,414 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ROLES, ROLE_LABELS, type Role } from '@/lib/permissions'
+import AddressDisplay from '@/components/AddressDisplay'
+import type { LoginLockout, UserAccount } from '@/types'
+
+const MIN_PASSWORD_LENGTH = 8
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<UserAccount[]>([])
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [role, setRole] = useState<Role>('viewer')
+  const [createError, setCreateError] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  const loadUsers = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/users')
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to fetch users')
+        return
+      }
+      setUsers(data)
+
+      const lockoutsResponse = await fetch('/api/lockouts')
+      if (lockoutsResponse.ok) {
+        setLockouts(await lockoutsResponse.json())
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch users')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreateError('')
+
+    if (!username.trim()) {
+      setCreateError('Username is required')
+      return
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setCreateError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password, role }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setCreateError(data.error || 'Failed to create user')
+        return
+      }
+      setUsername('')
+      setPassword('')
+      setRole('viewer')
+      await loadUsers()
+    } catch {
+      setCreateError('An error occurred. Please try again.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const updateUser = async (user: UserAccount, changes: Record<string, unknown>) => {
+    setBusyId(user.id)
+    try {
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to update user')
+        return false
+      }
+      await loadUsers()
+      return true
+    } catch (e) {
+      console.error('Failed to update user:', e)
+      alert('An error occurred while updating the user')
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleLinkAddress = async (user: UserAccount) => {
+    const value = prompt(
+      `Wallet address ${user.username} signs in with (leave empty to unlink):`,
+      user.address || ''
+    )
+    if (value === null) return
+    const address = value.trim()
+    if (address && !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      alert('Invalid address format. Must be 0x followed by 40 hex characters.')
+      return
+    }
+    await updateUser(user, { address: address || null })
+  }
+
+  const handleResetTwoFactor = async (user: UserAccount) => {
+    if (!confirm(`Turn off two-factor authentication for ${user.username}? They can enrol again after logging in.`)) {
+      return
+    }
+    await updateUser(user, { resetTwoFactor: true })
+  }
+
+  const handleResetPassword = async (user: UserAccount) => {
+    const newPassword = prompt(`New password for ${user.username} (min ${MIN_PASSWORD_LENGTH} characters):`)
+    if (newPassword === null) return
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      alert(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+    if (await updateUser(user, { password: newPassword })) {
+      alert(`Password for ${user.username} was reset. Their existing sessions were logged out.`)
+    }
+  }
+
+  const handleClearLockout = async (lockout: LoginLockout) => {
+    setBusyId(lockout.id)
+    try {
+      const response = await fetch(`/api/lockouts/${lockout.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to clear lockout')
+        return
+      }
+      await loadUsers()
+    } catch (e) {
+      console.error('Failed to clear lockout:', e)
+      alert('An error occurred while clearing the lockout')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (user: UserAccount) => {
+    if (!confirm(`Are you sure you want to delete user ${user.username}? This action cannot be undone.`)) {
+      return
+    }
+
+    setBusyId(user.id)
+    try {
+      const response = await fetch(`/api/users/${user.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete user')
+        return
+      }
+      await loadUsers()
+    } catch (e) {
+      console.error('Failed to delete user:', e)
+      alert('An error occurred while deleting the user')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-black">Users</h1>
+        <p className="mt-1 text-sm text-black">
+          Accounts that can log in to the registry. Viewers can only read, editors can rename and tag wallets, signer managers can edit signers and their addresses, and admins can do everything including managing users.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="mb-6 rounded-lg bg-white p-6 shadow">
+        <h2 className="mb-4 text-xl font-semibold text-black">Create user</h2>
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-black">
+              Username
+            </label>
+            <input
+              id="username"
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="mt-1 block w-56 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-black">
+              Initial password
+            </label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-1 block w-56 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="role" className="block text-sm font-medium text-black">
+              Role
+            </label>
+            <select
+              id="role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              className="mt-1 block w-44 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            >
+              {ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={creating}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {creating ? 'Creating...' : 'Create user'}
+          </button>
+        </div>
+        {createError && (
+          <div className="mt-4 rounded-md bg-red-50 p-3">
+            <p className="text-sm text-red-800">{createError}</p>
+          </div>
+        )}
+      </form>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Could not load users</div>
+          <div className="mt-1">{error}</div>
+        </div>
+      )}
+
+      {lockouts.length > 0 && (
+        <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+          <div className="font-semibold">Locked out after repeated failed logins</div>
+          <ul className="mt-2 space-y-1">
+            {lockouts.map((lockout) => (
+              <li key={lockout.id} className="flex flex-wrap items-center gap-2">
+                <span>
+                  {lockout.scope === 'ip' ? 'IP' : 'Username'} <span className="font-mono">{lockout.key}</span>
+                  {' · '}
+                  {lockout.failures} failures, locked until {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                </span>
+                <button
+                  onClick={() => handleClearLockout(lockout)}
+                  disabled={busyId !== null}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                >
+                  Clear
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs">
+            Clearing is recorded in the{' '}
+            <Link href="/audit" className="font-medium text-indigo-600 hover:text-indigo-800">
+              Audit log
+            </Link>{' '}
+            as a Login lockout event.
+          </p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-black">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Username</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Wallet address</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">2FA</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Active sessions</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Created</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {users.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-4 text-center text-black">
+                    No users found
+                  </td>
+                </tr>
+              ) : (
+                users.map((user) => (
+                  <tr key={user.id} className="hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-black">{user.username}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      <select
+                        value={user.role}
+                        onChange={(e) => updateUser(user, { role: e.target.value })}
+                        disabled={busyId !== null}
+                        className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black disabled:opacity-60"
+                      >
+                        {ROLES.map((r) => (
+                          <option key={r} value={r}>
+                            {ROLE_LABELS[r]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      {user.disabledAt ? (
+                        <span
+                          className="rounded bg-red-100 px-2 py-1 text-xs font-medium text-red-800"
+                          title={`Disabled ${new Date(user.disabledAt).toLocaleString()}`}
+                        >
+                          Disabled
+                        </span>
+                      ) : (
+                        <span className="rounded bg-green-100 px-2 py-1 text-xs font-medium text-green-800">Active</span>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {user.address ? <AddressDisplay address={user.address} signerId={user.signerId} /> : '—'}
+                      <button
+                        onClick={() => handleLinkAddress(user)}
+                        disabled={busyId !== null}
+                        className="ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                      >
+                        {user.address ? 'Change' : 'Link'}
+                      </button>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {user.twoFactorEnabled ? (
+                        <>
+                          <span className="rounded bg-green-100 px-2 py-1 text-xs font-medium text-green-800">On</span>
+                          <button
+                            onClick={() => handleResetTwoFactor(user)}
+                            disabled={busyId !== null}
+                            className="ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                          >
+                            Reset
+                          </button>
+                        </>
+                      ) : (
+                        <span
+                          className={`rounded px-2 py-1 text-xs font-medium ${
+                            user.role === 'admin' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          Off
+                        </span>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">{user.activeSessions}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                      {new Date(user.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleResetPassword(user)}
+                          disabled={busyId !== null}
+                          className="rounded-md bg-gray-100 px-3 py-1 text-xs font-medium text-black hover:bg-gray-200 disabled:opacity-60"
+                        >
+                          Reset password
+                        </button>
+                        <button
+                          onClick={() => updateUser(user, { disabled: !user.disabledAt })}
+                          disabled={busyId !== null}
+                          className="rounded-md bg-amber-600 px-3 py-1 text-xs font-medium text-white hover:bg-amber-700 disabled:opacity-60"
+                        >
+                          {user.disabledAt ? 'Enable' : 'Disable'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(user)}
+                          disabled={busyId !== null}
+                          className="rounded-md bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-60"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -8,8 +8,20 @@ import WalletTag from '@/components/WalletTag'
 import AddressDisplay from '@/components/AddressDisplay'
 import LoginModal from '@/components/LoginModal'
 import EditWalletModal from '@/components/EditWalletModal'
-import { parseTags, getExplorerUrl, extractNameAndType } from '@/lib/utils'
+import WalletQueueTab from '@/components/WalletQueueTab'
+import WalletHistoryTab from '@/components/WalletHistoryTab'
+import SignerStatusBadge from '@/components/SignerStatusBadge'
+import { getExplorerUrl, extractNameAndType } from '@/lib/utils'
 import type { WalletWithDetails } from '@/types'
+import type { Permission } from '@/lib/permissions'
+
+type WalletTab = 'signers' | 'queue' | 'history'
+
+const WALLET_TABS: Array<{ id: WalletTab; label: string }> = [
+  { id: 'signers', label: 'Signers' },
+  { id: 'queue', label: 'Queue' },
+  { id: 'history', label: 'History' },
+]
 
 export default function WalletDetailPage() {
   const router = useRouter()
@@ -17,10 +29,14 @@ export default function WalletDetailPage() {
   const walletId = params.id as string
   const [wallet, setWallet] = useState<WalletWithDetails | null>(null)
   const [loading, setLoading] = useState(true)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [permissions, setPermissions] = useState<Permission[]>([])
   const [showEditModal, setShowEditModal] = useState(false)
   const [showLoginModal, setShowLoginModal] = useState(false)
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState<WalletTab>('signers')
+
+  const canEditWallet = permissions.includes('wallet:edit')
+  const canManageWallets = permissions.includes('wallet:manage')
 
   useEffect(() => {
     loadWallet()
@@ -32,7 +48,7 @@ export default function WalletDetailPage() {
       const response = await fetch('/api/auth/session')
       if (response.ok) {
         const session = await response.json()
-        setIsAdmin(session.isAdmin || false)
+        setPermissions(session.permissions || [])
       }
     } catch (error) {
       console.error('Failed to load session:', error)
@@ -61,7 +77,7 @@ export default function WalletDetailPage() {
   }
 
   const handleEdit = () => {
-    if (!isAdmin) {
+    if (!canEditWallet) {
       setShowLoginModal(true)
       return
     }
@@ -69,7 +85,7 @@ export default function WalletDetailPage() {
   }
 
   const handleDelete = async () => {
-    if (!isAdmin) {
+    if (!canManageWallets) {
       setShowLoginModal(true)
       return
     }
@@ -127,8 +143,8 @@ export default function WalletDetailPage() {
     return <div className="py-8 text-center text-black">Wallet not found</div>
   }
 
-  const tags = parseTags(wallet.tag)
   const explorerUrl = getExplorerUrl(wallet.address, wallet.chainId)
+  const offboardedOwners = wallet.signers.filter((signer) => signer.signerId && signer.signerStatus === 'offboarded')
 
   return (
     <div>
@@ -145,29 +161,62 @@ export default function WalletDetailPage() {
           onClose={() => setShowEditModal(false)}
           onSuccess={handleEditSuccess}
           wallet={wallet}
+          canChangeChain={canManageWallets}
         />
       )}
 
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-3xl font-bold text-black">Wallet Details</h1>
-        {isAdmin && (
+        {(canEditWallet || canManageWallets) && (
           <div className="flex gap-2">
-            <button
-              onClick={handleEdit}
-              className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
-            >
-              Edit Details
-            </button>
-            <button
-              onClick={handleDelete}
-              className="rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
-            >
-              Delete
-            </button>
+            {canEditWallet && (
+              <button
+                onClick={handleEdit}
+                className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+              >
+                Edit Details
+              </button>
+            )}
+            {canManageWallets && (
+              <button
+                onClick={handleDelete}
+                className="rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+              >
+                Delete
+              </button>
+            )}
           </div>
         )}
       </div>
 
+      {wallet._snapshotAt && (
+        <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+          <div className="font-semibold">Live data unavailable — showing last known data</div>
+          <div className="mt-1">
+            Threshold and owners are from a snapshot taken {new Date(wallet._snapshotAt).toLocaleString()}.
+            {wallet._apiError && ` Error: ${wallet._apiError}`}
+          </div>
+        </div>
+      )}
+
+      {offboardedOwners.length > 0 && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+          <div className="font-semibold">Offboarded signers are still owners of this Safe</div>
+          <ul className="mt-1 space-y-0.5">
+            {offboardedOwners.map((owner) => (
+              <li key={owner.address}>
+                <Link href={`/signers/${owner.signerId}`} className="font-medium text-blue-600 hover:text-blue-800">
+                  {owner.signerName}
+                </Link>{' '}
+                <span className="font-mono text-xs">{owner.address}</span>
+                {owner.signerStatusSince && ` — offboarded ${new Date(owner.signerStatusSince).toLocaleDateString()}`}
+              </li>
+            ))}
+          </ul>
+          <div className="mt-1">Remove or swap these owners on-chain.</div>
+        </div>
+      )}
+
       {/* Header Section */}
       <div className="mb-6 rounded-lg bg-white p-6 shadow">
         <div className="space-y-4">
@@ -234,12 +283,12 @@ export default function WalletDetailPage() {
             </div>
           </div>
 
-          {tags.length > 0 && (
+          {wallet.tags.length > 0 && (
             <div>
               <label className="text-sm font-medium text-black">Tags</label>
               <div className="mt-2 flex flex-wrap gap-2">
-                {tags.map((tag, idx) => (
-                  <WalletTag key={idx} tag={tag} />
+                {wallet.tags.map((tag) => (
+                  <WalletTag key={tag.id} tag={tag.name} color={tag.color} />
                 ))}
               </div>
             </div>
@@ -247,10 +296,28 @@ export default function WalletDetailPage() {
         </div>
       </div>
 
-      {/* Signers Section */}
+      {/* Signers / Queue / History Section */}
       <div className="rounded-lg bg-white p-6 shadow">
-        <h2 className="mb-4 text-xl font-semibold text-black">Signers</h2>
-        {wallet.signers.length === 0 ? (
+        <div className="mb-4 flex gap-6 border-b border-gray-200">
+          {WALLET_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`-mb-px border-b-2 pb-2 text-xl font-semibold ${
+                activeTab === tab.id
+                  ? 'border-indigo-500 text-black'
+                  : 'border-transparent text-gray-500 hover:text-gray-800'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        {activeTab === 'queue' ? (
+          <WalletQueueTab walletId={wallet.id} />
+        ) : activeTab === 'history' ? (
+          <WalletHistoryTab walletId={wallet.id} />
+        ) : wallet.signers.length === 0 ? (
           <p className="text-black">No signers found</p>
         ) : (
           <div className="overflow-x-auto">
@@ -269,6 +336,9 @@ export default function WalletDetailPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
                     Department
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                    Status
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 bg-white">
@@ -323,6 +393,13 @@ export default function WalletDetailPage() {
                       <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
                         {signer.department || '-'}
                       </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-black">
+                        {signer.signerStatus ? (
+                          <SignerStatusBadge status={signer.signerStatus} since={signer.signerStatusSince} />
+                        ) : (
+                          '-'
+                        )}
+                      </td>
                     </tr>
                   )
                 })}
@@ -8,7 +8,9 @@ import ChainBadge from '@/components/ChainBadge'
 import WalletTag from '@/components/WalletTag'
 import LoginModal from '@/components/LoginModal'
 import AddWalletModal from '@/components/AddWalletModal'
-import { parseTags, getExplorerUrl } from '@/lib/utils'
+import { getExplorerUrl } from '@/lib/utils'
+import type { Permission } from '@/lib/permissions'
+import type { TagSummary, TagWithUsage } from '@/types'
 
 interface WalletSigner {
   address: string
@@ -21,7 +23,7 @@ interface Wallet {
   address: string
   name: string | null
   chainId: number
-  tag: string | null
+  tags: TagSummary[]
   threshold: number
   totalSigners: number
   signers: WalletSigner[]
@@ -36,15 +38,26 @@ export default function WalletsPage() {
   const [loading, setLoading] = useState(true)
   const [search, setSearch] = useState('')
   const [selectedChainId, setSelectedChainId] = useState<number | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [catalogTags, setCatalogTags] = useState<TagWithUsage[]>([])
+  const [selectedTag, setSelectedTag] = useState('')
+  const [permissions, setPermissions] = useState<Permission[]>([])
   const [showLoginModal, setShowLoginModal] = useState(false)
   const [showAddWalletModal, setShowAddWalletModal] = useState(false)
   const [loginMessage, setLoginMessage] = useState('')
 
+  const canManageWallets = permissions.includes('wallet:manage')
+
   useEffect(() => {
     loadWallets()
     loadSession()
-  }, [selectedChainId])
+  }, [selectedChainId, selectedTag])
+
+  useEffect(() => {
+    // Links from the tag catalog open the list pre-filtered
+    const initialTag = new URLSearchParams(window.location.search).get('tag')
+    if (initialTag) setSelectedTag(initialTag)
+    loadTags()
+  }, [])
 
   useEffect(() => {
     filterWallets()
@@ -55,13 +68,24 @@ export default function WalletsPage() {
       const response = await fetch('/api/auth/session')
       if (response.ok) {
         const session = await response.json()
-        setIsAdmin(session.isAdmin || false)
+        setPermissions(session.permissions || [])
       }
     } catch (error) {
       console.error('Failed to load session:', error)
     }
   }
 
+  const loadTags = async () => {
+    try {
+      const response = await fetch('/api/tags')
+      if (response.ok) {
+        setCatalogTags(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to load tags:', error)
+    }
+  }
+
   const loadWallets = async () => {
     setLoading(true)
     try {
@@ -69,6 +93,9 @@ export default function WalletsPage() {
       if (selectedChainId) {
         params.append('chainId', selectedChainId.toString())
       }
+      if (selectedTag) {
+        params.append('tag', selectedTag)
+      }
 
       const response = await fetch(`/api/wallets?${params.toString()}`)
       if (!response.ok) {
@@ -101,7 +128,7 @@ export default function WalletsPage() {
       if (wallet.name?.toLowerCase().includes(searchLower)) return true
       
       // Search by tag
-      if (wallet.tag?.toLowerCase().includes(searchLower)) return true
+      if (wallet.tags.some(t => t.name.toLowerCase().includes(searchLower))) return true
       
       // Search by signer name
       if (wallet.signers.some(s => s.name?.toLowerCase().includes(searchLower))) return true
@@ -116,7 +143,7 @@ export default function WalletsPage() {
   }
 
   const handleAddWallet = () => {
-    if (!isAdmin) {
+    if (!canManageWallets) {
       setLoginMessage('You need to login to add a new multisig wallet.')
       setShowLoginModal(true)
       return
@@ -149,7 +176,7 @@ export default function WalletsPage() {
 
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-3xl font-bold text-black">Multisig Wallets</h1>
-        {isAdmin && (
+        {canManageWallets && (
           <button
             onClick={handleAddWallet}
             className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
@@ -159,7 +186,7 @@ export default function WalletsPage() {
         )}
       </div>
 
-      <div className="mb-4">
+      <div className="mb-4 flex gap-3">
         <input
           type="text"
           placeholder="Search by address, name, tag, or signer..."
@@ -167,6 +194,19 @@ export default function WalletsPage() {
           onChange={(e) => setSearch(e.target.value)}
           className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black placeholder-gray-400 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
         />
+        <select
+          aria-label="Filter by tag"
+          value={selectedTag}
+          onChange={(e) => setSelectedTag(e.target.value)}
+          className="block w-48 rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+        >
+          <option value="">All tags</option>
+          {catalogTags.map((tag) => (
+            <option key={tag.id} value={tag.name}>
+              {tag.name} ({tag.walletCount})
+            </option>
+          ))}
+        </select>
       </div>
 
       <NetworkToggle selectedChainId={selectedChainId} onChainChange={setSelectedChainId} />
@@ -175,7 +215,7 @@ export default function WalletsPage() {
         <div className="py-8 text-center text-black">Loading...</div>
       ) : filteredWallets.length === 0 ? (
         <div className="py-8 text-center text-black">
-          {search ? 'No wallets match your search' : 'No wallets found'}
+          {search || selectedTag ? 'No wallets match your search' : 'No wallets found'}
         </div>
       ) : (
         <div className="overflow-x-auto rounded-lg bg-white shadow">
@@ -203,7 +243,6 @@ export default function WalletsPage() {
                 })
                 .map((wallet) => {
                 const explorerUrl = getExplorerUrl(wallet.address, wallet.chainId)
-                const tags = parseTags(wallet.tag)
                 
                 return (
                   <tr key={wallet.id} className="hover:bg-gray-50">
@@ -235,9 +274,9 @@ export default function WalletsPage() {
                     </td>
                     <td className="whitespace-nowrap px-6 py-4">
                       <div className="flex flex-wrap gap-1">
-                        {tags.length > 0 ? (
-                          tags.map((tag, idx) => (
-                            <WalletTag key={idx} tag={tag} />
+                        {wallet.tags.length > 0 ? (
+                          wallet.tags.map((tag) => (
+                            <WalletTag key={tag.id} tag={tag.name} color={tag.color} />
                           ))
                         ) : (
                           <span className="text-sm text-black">—</span>
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { CUSTODY_KINDS } from '@/lib/custody'
+import { renameAddressTypeInVersions } from '@/lib/address-types'
+import { z } from 'zod'
+
+const updateAddressTypeSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  custody: z.enum(CUSTODY_KINDS).optional(),
+  description: z.string().optional(),
+})
+
+/**
+ * Rename an address type or change its custody. Addresses reference it by id, so the change shows up everywhere.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const { name, custody, description } = updateAddressTypeSchema.parse(body)
+
+    const existing = await db.addressType.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Address type not found' }, { status: 404 })
+    }
+
+    if (name !== undefined && name !== existing.name) {
+      const conflict = await db.addressType.findFirst({
+        where: { id: { not: id }, name: { equals: name, mode: 'insensitive' } },
+      })
+      if (conflict) {
+        return NextResponse.json({ error: `Address type "${conflict.name}" already exists` }, { status: 400 })
+      }
+    }
+
+    const addressType = await db.addressType.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(custody !== undefined && { custody }),
+        ...(description !== undefined && { description: description.trim() || null }),
+      },
+    })
+
+    if (addressType.name !== existing.name) {
+      await renameAddressTypeInVersions(existing.name, addressType.name)
+    }
+
+    await recordAuditEvent(session, {
+      action: 'address_type.update',
+      entityType: 'address_type',
+      entityId: addressType.id,
+      before: existing,
+      after: addressType,
+    })
+
+    return NextResponse.json(addressType)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Update address type error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete an address type; its addresses are left unclassified
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id } = await params
+
+    const addressType = await db.addressType.findUnique({
+      where: { id },
+      include: { signerAddresses: { select: { id: true } } },
+    })
+    if (!addressType) {
+      return NextResponse.json({ error: 'Address type not found' }, { status: 404 })
+    }
+
+    await db.addressType.delete({ where: { id } })
+
+    await recordAuditEvent(session, {
+      action: 'address_type.delete',
+      entityType: 'address_type',
+      entityId: addressType.id,
+      before: {
+        ...addressType,
+        signerAddresses: undefined,
+        signerAddressIds: addressType.signerAddresses.map((a) => a.id),
+      },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Delete address type error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth'
+import { getHotWalletReport } from '@/lib/address-types'
+
+export async function GET() {
+  try {
+    // Lists which keys would take over each Safe, so it is limited to signer managers
+    await requirePermission('signer:manage')
+
+    // Based on stored snapshots only, so this never fans out to the Safe API
+    return NextResponse.json(await getHotWalletReport())
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get hot wallet report error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { CUSTODY_KINDS } from '@/lib/custody'
+import { z } from 'zod'
+import type { AddressTypeSummary } from '@/types'
+
+const createAddressTypeSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  custody: z.enum(CUSTODY_KINDS),
+  description: z.string().optional(),
+})
+
+export async function GET() {
+  try {
+    // Allow public access to the address type catalog - no auth required
+    const addressTypes = await db.addressType.findMany({
+      include: { _count: { select: { signerAddresses: true } } },
+      orderBy: { name: 'asc' },
+    })
+
+    const result: AddressTypeSummary[] = addressTypes.map((addressType) => ({
+      id: addressType.id,
+      name: addressType.name,
+      custody: addressType.custody,
+      description: addressType.description,
+      addressCount: addressType._count.signerAddresses,
+    }))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Get address types error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const body = await request.json()
+    const { name, custody, description } = createAddressTypeSchema.parse(body)
+
+    const existing = await db.addressType.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    })
+    if (existing) {
+      return NextResponse.json({ error: `Address type "${existing.name}" already exists` }, { status: 400 })
+    }
+
+    const addressType = await db.addressType.create({
+      data: { name, custody, description: description?.trim() || null },
+    })
+
+    await recordAuditEvent(session, {
+      action: 'address_type.create',
+      entityType: 'address_type',
+      entityId: addressType.id,
+      after: addressType,
+    })
+
+    return NextResponse.json(addressType, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Create address type error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { streamAuditEventsCsv } from '@/lib/audit'
+import type { AuditEventEntry } from '@/types'
+
+const DEFAULT_LIMIT = 200
+const MAX_LIMIT = 1000
+
+function parseDate(value: string | null, endOfDay: boolean): Date | null {
+  if (!value) return null
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00.000Z` : value)
+  if (Number.isNaN(date.getTime())) return null
+  // A plain date as `to` includes that whole day
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCDate(date.getUTCDate() + 1)
+  return date
+}
+
+/**
+ * Audit events, newest first. Filters: actor, entityType, entityId, from, to (dates, UTC).
+ * `format=csv` streams every matching event, however many there are.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('audit:view')
+
+    const searchParams = request.nextUrl.searchParams
+    const actor = searchParams.get('actor')?.trim()
+    const entityType = searchParams.get('entityType')?.trim()
+    const entityId = searchParams.get('entityId')?.trim()
+    const from = parseDate(searchParams.get('from'), false)
+    const to = parseDate(searchParams.get('to'), true)
+    const format = searchParams.get('format')
+
+    const where: Prisma.AuditEventWhereInput = {
+      ...(actor && { actor: { equals: actor, mode: 'insensitive' } }),
+      ...(entityType && { entityType }),
+      ...(entityId && { entityId }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: from }),
+          ...(to && { lt: to }),
+        },
+      }),
+    }
+
+    if (format === 'csv') {
+      const filename = `audit-${new Date().toISOString().slice(0, 10)}.csv`
+      return new NextResponse(streamAuditEventsCsv(where), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
+    // A negative take would make Prisma return the oldest rows instead
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const events = await db.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    const result: AuditEventEntry[] = events.map((event) => ({
+      id: event.id,
+      actor: event.actor,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      before: event.before,
+      after: event.after,
+      ip: event.ip,
+      createdAt: event.createdAt.toISOString(),
+    }))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get audit events error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
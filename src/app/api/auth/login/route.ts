@@ -1,33 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
-import { verifyPassword, createSession } from '@/lib/auth'
+import { verifyPassword, hashPassword, createSession, getClientInfo } from '@/lib/auth'
+import { verifySecondFactor, startEnrolment, completeEnrolment } from '@/lib/two-factor'
+import { beginLoginAttempt, releaseLoginAttempt, clearUsernameFailures } from '@/lib/login-throttle'
 import { z } from 'zod'
 
 const loginSchema = z.object({
   username: z.string().min(1),
   password: z.string().min(1),
+  totpCode: z.string().optional(), // Required once two-factor authentication is enabled
 })
 
+// Compared against when the username does not exist, so both cases take a bcrypt round
+let dummyPasswordHash: Promise<string> | null = null
+
+function invalidCredentials() {
+  return NextResponse.json(
+    { error: 'Invalid username or password' },
+    { status: 401 }
+  )
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { username, password } = loginSchema.parse(body)
+    const { username, password, totpCode } = loginSchema.parse(body)
 
     // Trim whitespace from username
     const trimmedUsername = username.trim()
+    const { ip } = await getClientInfo()
+
+    // The attempt is counted as a failure before the password is checked, so parallel guesses
+    // cannot all slip past the limit. Unknown usernames are throttled the same way, so a
+    // lockout does not reveal which accounts exist.
+    const retryAfter = await beginLoginAttempt(trimmedUsername, ip)
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { error: `Too many failed login attempts. Try again in ${retryAfter} seconds.` },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
 
     const user = await db.user.findUnique({
       where: { username: trimmedUsername },
     })
 
     if (!user) {
+      dummyPasswordHash ??= hashPassword('dummy-password-for-timing')
+      await verifyPassword(password, await dummyPasswordHash)
       if (process.env.NODE_ENV === 'development') {
         console.log(`[Login] User not found: ${trimmedUsername}`)
       }
-      return NextResponse.json(
-        { error: 'Invalid username or password' },
-        { status: 401 }
-      )
+      return invalidCredentials()
     }
 
     const isValid = await verifyPassword(password, user.passwordHash)
@@ -35,22 +59,75 @@ export async function POST(request: NextRequest) {
       if (process.env.NODE_ENV === 'development') {
         console.log(`[Login] Invalid password for user: ${trimmedUsername}`)
       }
+      return invalidCredentials()
+    }
+
+    if (user.disabledAt) {
+      // The password was right, so this is not a guess and must not add towards a lockout
+      await releaseLoginAttempt(trimmedUsername, ip)
       return NextResponse.json(
-        { error: 'Invalid username or password' },
-        { status: 401 }
+        { error: 'This account has been disabled' },
+        { status: 403 }
       )
     }
 
-    await createSession(user.id, user.username, user.isAdmin)
+    // Second factor is checked only after the password, and before any session exists.
+    // Admins must have one: those who have not enrolled yet do it here, the first attempt
+    // returning a pending secret and the next one confirming it with a code.
+    let recoveryCodes: string[] | null = null
+    if (user.role === 'admin' && !user.totpEnabledAt) {
+      recoveryCodes = totpCode ? await completeEnrolment(user, totpCode) : null
+      if (!recoveryCodes) {
+        // Only a wrong code counts; asking for the enrolment secret does not
+        if (!totpCode) {
+          await releaseLoginAttempt(trimmedUsername, ip)
+        }
+        const enrolment = await startEnrolment(user, true)
+        return NextResponse.json(
+          {
+            error: totpCode ? 'Invalid two-factor code' : 'Admin accounts must set up two-factor authentication',
+            totpEnrollmentRequired: true,
+            ...enrolment,
+          },
+          { status: 403, headers: { 'Cache-Control': 'no-store' } }
+        )
+      }
+    } else if (user.totpEnabledAt) {
+      if (!totpCode) {
+        await releaseLoginAttempt(trimmedUsername, ip)
+        return NextResponse.json(
+          { error: 'Two-factor code required', totpRequired: true },
+          { status: 401 }
+        )
+      }
+      if (!(await verifySecondFactor(user, totpCode))) {
+        if (process.env.NODE_ENV === 'development') {
+          console.log(`[Login] Invalid two-factor code for user: ${trimmedUsername}`)
+        }
+        return NextResponse.json(
+          { error: 'Invalid two-factor code', totpRequired: true },
+          { status: 401 }
+        )
+      }
+    }
 
-    return NextResponse.json({
-      success: true,
-      user: {
-        id: user.id,
-        username: user.username,
-        isAdmin: user.isAdmin,
+    await releaseLoginAttempt(trimmedUsername, ip)
+    await clearUsernameFailures(trimmedUsername)
+    await createSession(user.id)
+
+    return NextResponse.json(
+      {
+        success: true,
+        user: {
+          id: user.id,
+          username: user.username,
+          role: user.role,
+        },
+        // Shown once after enrolling during login
+        ...(recoveryCodes && { recoveryCodes }),
       },
-    })
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
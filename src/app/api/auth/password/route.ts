@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requireAuth, verifyPassword, hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/auth'
+import { z } from 'zod'
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(MIN_PASSWORD_LENGTH),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+
+    const body = await request.json()
+    const { currentPassword, newPassword } = changePasswordSchema.parse(body)
+
+    const user = await db.user.findUnique({ where: { id: session.userId } })
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const isValid = await verifyPassword(currentPassword, user.passwordHash)
+    if (!isValid) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      )
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { passwordHash: await hashPassword(newPassword) },
+    })
+
+    // Log out every other device; keep the session that made the change
+    await db.session.updateMany({
+      where: { userId: user.id, revokedAt: null, id: { not: session.sessionId } },
+      data: { revokedAt: new Date() },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Change password error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { createSiweNonce } from '@/lib/siwe-login'
+
+export async function GET() {
+  try {
+    const nonce = createSiweNonce()
+    return NextResponse.json({ nonce }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error('SIWE nonce error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
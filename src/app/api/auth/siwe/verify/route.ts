@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { createSession } from '@/lib/auth'
+import { verifySiweLogin } from '@/lib/siwe-login'
+import { z } from 'zod'
+
+const verifySchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature format'),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { message, signature } = verifySchema.parse(body)
+
+    const result = await verifySiweLogin({
+      message,
+      signature,
+      host: request.headers.get('host'),
+    })
+
+    if ('error' in result) {
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`[SIWE] Login rejected: ${result.error}`)
+      }
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await createSession(result.userId)
+
+    const user = await db.user.findUniqueOrThrow({ where: { id: result.userId } })
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('SIWE login error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requireAuth, verifyPassword } from '@/lib/auth'
+import { verifySecondFactor } from '@/lib/two-factor'
+import { z } from 'zod'
+
+const disableSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().min(1), // Current TOTP code or a recovery code
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+
+    const body = await request.json()
+    const { password, code } = disableSchema.parse(body)
+
+    const user = await db.user.findUnique({ where: { id: session.userId } })
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      )
+    }
+    if (user.role === 'admin') {
+      return NextResponse.json(
+        { error: 'Admin accounts must keep two-factor authentication enabled' },
+        { status: 400 }
+      )
+    }
+
+    const passwordValid = await verifyPassword(password, user.passwordHash)
+    if (!passwordValid || !(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        { error: 'Invalid password or two-factor code' },
+        { status: 400 }
+      )
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
+      },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Two-factor disable error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
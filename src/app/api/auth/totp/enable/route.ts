@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requireAuth } from '@/lib/auth'
+import { completeEnrolment } from '@/lib/two-factor'
+import { z } from 'zod'
+
+const enableSchema = z.object({
+  code: z.string().min(1),
+})
+
+// Finish enrolment: confirm the authenticator works, then return recovery codes (shown once)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+
+    const body = await request.json()
+    const { code } = enableSchema.parse(body)
+
+    const user = await db.user.findUnique({ where: { id: session.userId } })
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      )
+    }
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = await completeEnrolment(user, code)
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: 'Invalid code. Check the time on your device and try again.' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, recoveryCodes },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Two-factor enable error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
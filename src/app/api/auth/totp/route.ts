@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requireAuth } from '@/lib/auth'
+
+// Two-factor status of the logged-in user
+export async function GET() {
+  try {
+    const session = await requireAuth()
+
+    const user = await db.user.findUnique({
+      where: { id: session.userId },
+      select: { totpEnabledAt: true, totpRecoveryCodes: true },
+    })
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: user.totpEnabledAt ? user.totpRecoveryCodes.length : 0,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Get two-factor status error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requireAuth } from '@/lib/auth'
+import { startEnrolment } from '@/lib/two-factor'
+
+// Start enrolment: store a pending secret and return it with a QR code to scan
+export async function POST() {
+  try {
+    const session = await requireAuth()
+
+    const user = await db.user.findUnique({ where: { id: session.userId } })
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      )
+    }
+
+    const enrolment = await startEnrolment(user)
+
+    return NextResponse.json(enrolment, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Two-factor setup error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshAddressActivity, getActivityRpcUrl } from '@/lib/address-activity'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`
+    const cronSecret = process.env.CRON_SECRET?.trim()
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // EOA activity lookups are optional - nothing to do without an RPC endpoint
+    if (!getActivityRpcUrl()) {
+      return NextResponse.json({ skipped: 'ACTIVITY_RPC_URL is not configured' })
+    }
+
+    const result = await refreshAddressActivity()
+
+    console.log(`[Address Activity] ✅ Checked ${result.checked} addresses, ${result.updated} with new activity, ${result.failed.length} failed`)
+    for (const failure of result.failed) {
+      console.warn(`[Address Activity] ⚠️ ${failure.address}: ${failure.error}`)
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Refresh address activity error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
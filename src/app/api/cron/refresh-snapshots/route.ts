@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshWalletSnapshots } from '@/lib/snapshots'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`
+    const cronSecret = process.env.CRON_SECRET?.trim()
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await refreshWalletSnapshots()
+
+    console.log(`[Snapshot Refresh] ✅ Refreshed ${result.refreshed} wallets, ${result.failed.length} failed, pruned ${result.pruned} old snapshots`)
+    for (const failure of result.failed) {
+      console.warn(`[Snapshot Refresh] ⚠️ ${failure.address} on chain ${failure.chainId}: ${failure.error}`)
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Refresh snapshots error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { syncAllConfirmations } from '@/lib/participation'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`
+    const cronSecret = process.env.CRON_SECRET?.trim()
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await syncAllConfirmations()
+
+    console.log(`[Confirmation Sync] ✅ Synced ${result.synced} wallets, ${result.recorded} new confirmations, ${result.failed.length} failed`)
+    for (const failure of result.failed) {
+      console.warn(`[Confirmation Sync] ⚠️ ${failure.address} on chain ${failure.chainId}: ${failure.error}`)
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Sync confirmations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { renameDepartmentInVersions } from '@/lib/departments'
+import { syncSignersToJson } from '@/lib/json-sync'
+import { z } from 'zod'
+
+const mergeDepartmentSchema = z.object({
+  targetId: z.string().min(1),
+})
+
+/**
+ * Merge this department into another: its signers move to the target and this department is deleted
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const { targetId } = mergeDepartmentSchema.parse(body)
+
+    if (targetId === id) {
+      return NextResponse.json({ error: 'Cannot merge a department into itself' }, { status: 400 })
+    }
+
+    const [source, target] = await Promise.all([
+      db.department.findUnique({ where: { id }, include: { signers: { select: { id: true } } } }),
+      db.department.findUnique({ where: { id: targetId } }),
+    ])
+    if (!source || !target) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    const signerIds = source.signers.map((s) => s.id)
+    await db.$transaction([
+      db.signer.updateMany({ where: { departmentId: source.id }, data: { departmentId: target.id } }),
+      db.department.delete({ where: { id: source.id } }),
+    ])
+
+    await renameDepartmentInVersions(source.name, target.name)
+
+    await recordAuditEvent(session, {
+      action: 'department.merge',
+      entityType: 'department',
+      entityId: target.id,
+      before: { merged: { id: source.id, name: source.name }, signerIds },
+      after: { id: target.id, name: target.name },
+    })
+
+    // Sync to JSON file
+    try {
+      await syncSignersToJson()
+    } catch (error) {
+      console.error('Failed to sync signers to JSON:', error)
+      // Don't fail the request if JSON sync fails
+    }
+
+    return NextResponse.json({ targetId: target.id, movedSigners: signerIds.length })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Merge department error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { getDepartmentReport, normalizeDepartmentName, renameDepartmentInVersions } from '@/lib/departments'
+import { syncSignersToJson } from '@/lib/json-sync'
+import { z } from 'zod'
+
+const updateDepartmentSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().optional(),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Allow public access to view department details - no auth required
+    const { id } = await params
+
+    const report = await getDepartmentReport(id)
+    if (!report) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Get department error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Rename a department or change its description. Signers reference it by id, so a rename shows up everywhere.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const parsed = updateDepartmentSchema.parse(body)
+    const name = parsed.name !== undefined ? normalizeDepartmentName(parsed.name) : undefined
+
+    const existing = await db.department.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    if (name !== undefined && name !== existing.name) {
+      const conflict = await db.department.findFirst({
+        where: { id: { not: id }, name: { equals: name, mode: 'insensitive' } },
+      })
+      if (conflict) {
+        return NextResponse.json(
+          { error: `Department "${conflict.name}" already exists. Merge the departments instead.` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const department = await db.department.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(parsed.description !== undefined && { description: parsed.description.trim() || null }),
+      },
+    })
+
+    await recordAuditEvent(session, {
+      action: 'department.update',
+      entityType: 'department',
+      entityId: department.id,
+      before: existing,
+      after: department,
+    })
+
+    if (department.name !== existing.name) {
+      await renameDepartmentInVersions(existing.name, department.name)
+
+      // Sync to JSON file
+      try {
+        await syncSignersToJson()
+      } catch (error) {
+        console.error('Failed to sync signers to JSON:', error)
+        // Don't fail the request if JSON sync fails
+      }
+    }
+
+    return NextResponse.json(department)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Update department error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete a department; its signers are left without one
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id } = await params
+
+    const department = await db.department.findUnique({
+      where: { id },
+      include: { signers: { select: { id: true } } },
+    })
+    if (!department) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    await db.department.delete({ where: { id } })
+
+    await recordAuditEvent(session, {
+      action: 'department.delete',
+      entityType: 'department',
+      entityId: department.id,
+      before: { ...department, signers: undefined, signerIds: department.signers.map((s) => s.id) },
+    })
+
+    // Sync to JSON file
+    try {
+      await syncSignersToJson()
+    } catch (error) {
+      console.error('Failed to sync signers to JSON:', error)
+      // Don't fail the request if JSON sync fails
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Delete department error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { findDepartmentMergeSuggestions } from '@/lib/departments'
+
+/**
+ * Departments that look like spellings of the same name, for the merge review screen
+ */
+export async function GET() {
+  try {
+    await requirePermission('signer:manage')
+
+    const departments = await db.department.findMany({
+      include: { _count: { select: { signers: { where: { deletedAt: null } } } } },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json(
+      findDepartmentMergeSuggestions(
+        departments.map((d) => ({ id: d.id, name: d.name, signerCount: d._count.signers }))
+      )
+    )
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get department duplicates error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
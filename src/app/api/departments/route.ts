@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { getDepartmentSummaries, normalizeDepartmentName } from '@/lib/departments'
+import { z } from 'zod'
+
+const createDepartmentSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().optional(),
+})
+
+export async function GET() {
+  try {
+    // Allow public access to view departments - no auth required
+    return NextResponse.json(await getDepartmentSummaries())
+  } catch (error) {
+    console.error('Get departments error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const body = await request.json()
+    const parsed = createDepartmentSchema.parse(body)
+    const name = normalizeDepartmentName(parsed.name)
+
+    const existing = await db.department.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    })
+    if (existing) {
+      return NextResponse.json({ error: `Department "${existing.name}" already exists` }, { status: 400 })
+    }
+
+    const department = await db.department.create({
+      data: { name, description: parsed.description?.trim() || null },
+    })
+
+    await recordAuditEvent(session, {
+      action: 'department.create',
+      entityType: 'department',
+      entityId: department.id,
+      after: department,
+    })
+
+    return NextResponse.json(department, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Create department error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
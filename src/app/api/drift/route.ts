@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { getDriftReport } from '@/lib/drift'
+
+export async function GET() {
+  try {
+    // Allow public access to view the drift report - no auth required
+    // Based on stored snapshots only, so this never fans out to the Safe API
+    const report = await getDriftReport()
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Get drift report error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
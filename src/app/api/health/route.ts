@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+
+// Always reachable, even in private mode - used by uptime checks
+export async function GET() {
+  try {
+    await db.$queryRaw`SELECT 1`
+    return NextResponse.json({ status: 'ok' })
+  } catch (error) {
+    console.error('Health check error:', error)
+    return NextResponse.json({ status: 'error' }, { status: 503 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { clearLockout } from '@/lib/login-throttle'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('user:manage')
+
+    const { id } = await params
+    const cleared = await clearLockout(id)
+
+    if (!cleared) {
+      return NextResponse.json({ error: 'Lockout not found' }, { status: 404 })
+    }
+
+    console.log(`[Login] 🔓 Lockout cleared for ${cleared.scope} "${cleared.key}" by ${session.username}`)
+    await recordAuditEvent(session, {
+      action: 'lockout.clear',
+      entityType: 'lockout',
+      entityId: cleared.key,
+      before: { scope: cleared.scope, failures: cleared.failures, lockedUntil: cleared.lockedUntil },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Clear lockout error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth'
+import { listActiveLockouts } from '@/lib/login-throttle'
+import type { LoginLockout } from '@/types'
+
+export async function GET() {
+  try {
+    await requirePermission('user:manage')
+
+    const lockouts = await listActiveLockouts()
+
+    const result: LoginLockout[] = lockouts.map((l) => ({
+      id: l.id,
+      scope: l.scope as LoginLockout['scope'],
+      key: l.key,
+      failures: l.failures,
+      lastFailedAt: l.lastFailedAt.toISOString(),
+      lockedUntil: l.lockedUntil!.toISOString(),
+    }))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get lockouts error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getParticipationReport, getDormantDays } from '@/lib/participation'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Allow public access to view signer participation - no auth required
+    // Based on stored confirmations only; the sync-confirmations cron keeps them current
+    const requested = parseInt(request.nextUrl.searchParams.get('dormantDays') || '', 10)
+    const dormantDays = Number.isFinite(requested) && requested > 0 ? requested : getDormantDays()
+
+    const report = await getParticipationReport(dormantDays)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Get participation report error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, revokeSession } from '@/lib/auth'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requirePermission('user:manage')
+
+    const { id } = await params
+    const revoked = await revokeSession(id)
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found or already revoked' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Revoke session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission, revokeUserSessions } from '@/lib/auth'
+import type { ActiveSession } from '@/types'
+
+export async function GET() {
+  try {
+    const session = await requirePermission('user:manage')
+
+    const sessions = await db.session.findMany({
+      where: { revokedAt: null, expiresAt: { gt: new Date() } },
+      include: { user: { select: { username: true, role: true } } },
+      orderBy: { lastSeenAt: 'desc' },
+    })
+
+    const result: ActiveSession[] = sessions.map((s) => ({
+      id: s.id,
+      userId: s.userId,
+      username: s.user.username,
+      role: s.user.role,
+      createdAt: s.createdAt.toISOString(),
+      lastSeenAt: s.lastSeenAt.toISOString(),
+      expiresAt: s.expiresAt.toISOString(),
+      ip: s.ip,
+      userAgent: s.userAgent,
+      current: s.id === session.sessionId,
+    }))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get sessions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Force logout of every session for a user: DELETE /api/sessions?userId=...
+export async function DELETE(request: NextRequest) {
+  try {
+    await requirePermission('user:manage')
+
+    const userId = request.nextUrl.searchParams.get('userId')
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+
+    const revoked = await revokeUserSessions(userId)
+
+    return NextResponse.json({ success: true, revoked })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Revoke user sessions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,300 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { recordVersion } from '@/lib/versions'
+import { toVersionedSignerAddress } from '@/lib/address-types'
+import { syncSignersToJson } from '@/lib/json-sync'
+import { findSafesOwnedBy, buildRotationSafePlan, groupPlansByChain } from '@/lib/owner-changes'
+import { trackSafeApiCache, withCacheAge, invalidateSafeApiCache } from '@/lib/safe-cache'
+import { getSafeInfoOnChain } from '@/lib/safeApi'
+import { z } from 'zod'
+import type { OwnerChangePlan, SkippedLinkMove } from '@/types'
+
+const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format')
+
+const confirmReplaceSchema = z.object({
+  newAddress: addressSchema,
+  type: z.string().optional(),
+  name: z.string().optional(),
+  addressTypeId: z.string().nullable().optional(), // Defaults to the replaced address's type
+})
+
+/**
+ * Load the old address and make sure it belongs to this signer
+ */
+async function findSignerAddress(signerId: string, addressId: string) {
+  const signerAddress = await db.signerAddress.findUnique({
+    where: { id: addressId },
+    include: { signer: true },
+  })
+  if (!signerAddress || signerAddress.signerId !== signerId) {
+    return null
+  }
+  return signerAddress
+}
+
+/**
+ * Plan swapOwner calls replacing the address on every Safe where it is an owner
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; addressId: string }> }
+) {
+  try {
+    trackSafeApiCache()
+    await requirePermission('signer:manage')
+
+    const { id, addressId } = await params
+    const newAddress = addressSchema.parse(request.nextUrl.searchParams.get('newAddress') || '')
+
+    const oldAddress = await findSignerAddress(id, addressId)
+    if (!oldAddress) {
+      return NextResponse.json(
+        { error: 'Address not found or does not belong to this signer' },
+        { status: 404 }
+      )
+    }
+
+    if (oldAddress.address.toLowerCase() === newAddress.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'New address must be different from the address being replaced' },
+        { status: 400 }
+      )
+    }
+
+    const { safes, failedChains } = await findSafesOwnedBy([oldAddress.address], { fresh: true })
+    const plans = safes.map((safe) =>
+      buildRotationSafePlan(safe, oldAddress.address, newAddress, oldAddress.signer.name)
+    )
+
+    const plan: OwnerChangePlan = {
+      signerId: oldAddress.signer.id,
+      signerName: oldAddress.signer.name,
+      addresses: [oldAddress.address],
+      chains: await groupPlansByChain(plans),
+      failedChains,
+    }
+
+    return withCacheAge(NextResponse.json(plan))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Plan address replacement error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Split the old address's wallet links into those whose Safe has executed the swap
+ * (new address is an owner, old one is gone) and those that must stay where they are
+ */
+async function verifySwappedLinks(
+  links: Array<{ walletId: string; wallet: { address: string; name: string | null; chainId: number } }>,
+  oldAddress: string,
+  newAddress: string
+): Promise<{ swappedWalletIds: string[]; skipped: SkippedLinkMove[] }> {
+  // Owners are read live; a cached response from before the swap would skip every Safe
+  await invalidateSafeApiCache(...links.map((link) => link.wallet.address))
+
+  const swappedWalletIds: string[] = []
+  const skipped: SkippedLinkMove[] = []
+
+  await Promise.all(
+    links.map(async (link) => {
+      const target = {
+        walletId: link.walletId,
+        address: link.wallet.address,
+        name: link.wallet.name,
+        chainId: link.wallet.chainId,
+      }
+      try {
+        const { owners } = await getSafeInfoOnChain(link.wallet.address, link.wallet.chainId)
+        const ownerSet = new Set(owners.map((owner) => owner.toLowerCase()))
+        if (!ownerSet.has(newAddress.toLowerCase())) {
+          skipped.push({ ...target, reason: 'The new address is not an owner of this Safe yet' })
+        } else if (ownerSet.has(oldAddress.toLowerCase())) {
+          skipped.push({ ...target, reason: 'The old address is still an owner of this Safe' })
+        } else {
+          swappedWalletIds.push(link.walletId)
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        skipped.push({ ...target, reason: `Failed to fetch live Safe owners: ${errorMessage}` })
+      }
+    })
+  )
+
+  return { swappedWalletIds, skipped }
+}
+
+/**
+ * Confirm a replacement once the swapOwner transactions are executed:
+ * moves the WalletSigner links of every Safe where the swap is visible on-chain
+ * from the old SignerAddress to the new one, and reports the Safes that were skipped
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; addressId: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id, addressId } = await params
+    const body = await request.json()
+    const { newAddress, type, name, addressTypeId } = confirmReplaceSchema.parse(body)
+    const normalizedNewAddress = newAddress.toLowerCase()
+
+    const oldAddress = await findSignerAddress(id, addressId)
+    if (!oldAddress) {
+      return NextResponse.json(
+        { error: 'Address not found or does not belong to this signer' },
+        { status: 404 }
+      )
+    }
+
+    if (oldAddress.signer.deletedAt) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+
+    if (oldAddress.address.toLowerCase() === normalizedNewAddress) {
+      return NextResponse.json(
+        { error: 'New address must be different from the address being replaced' },
+        { status: 400 }
+      )
+    }
+
+    // Reuse the new address if it is already on this signer, reject it if it belongs to someone else
+    const existing = await db.signerAddress.findUnique({
+      where: { address: normalizedNewAddress },
+    })
+    if (existing && existing.signerId !== id) {
+      return NextResponse.json(
+        { error: 'New address is already associated with another signer' },
+        { status: 400 }
+      )
+    }
+    if (addressTypeId && !(await db.addressType.findUnique({ where: { id: addressTypeId } }))) {
+      return NextResponse.json({ error: 'Address type not found' }, { status: 400 })
+    }
+
+    const linkedWallets = await db.walletSigner.findMany({
+      where: { signerAddressId: oldAddress.id },
+      include: { wallet: { select: { address: true, name: true, chainId: true } } },
+    })
+    const { swappedWalletIds, skipped } = await verifySwappedLinks(
+      linkedWallets,
+      oldAddress.address,
+      normalizedNewAddress
+    )
+    if (linkedWallets.length > 0 && swappedWalletIds.length === 0) {
+      return NextResponse.json(
+        { error: 'The swap is not visible on any linked Safe yet; no wallet links were moved', skipped },
+        { status: 409 }
+      )
+    }
+
+    // Create the replacement and move the links together, so a failed move leaves no orphan address behind
+    const { created, movedLinks } = await db.$transaction(async (tx) => {
+      const created = existing
+        ? null
+        : await tx.signerAddress.create({
+            data: {
+              signerId: id,
+              address: normalizedNewAddress,
+              type: type?.trim() || null,
+              name: name?.trim() || null,
+              addressTypeId: addressTypeId === undefined ? oldAddress.addressTypeId : addressTypeId || null,
+            },
+            include: { addressType: true },
+          })
+      const replacementId = existing?.id ?? created!.id
+
+      const movedLinks = await tx.walletSigner.findMany({
+        where: { signerAddressId: oldAddress.id, walletId: { in: swappedWalletIds } },
+        include: { wallet: { select: { address: true } } },
+      })
+      await tx.walletSigner.createMany({
+        data: movedLinks.map((link) => ({
+          walletId: link.walletId,
+          signerAddressId: replacementId,
+        })),
+        skipDuplicates: true,
+      })
+      await tx.walletSigner.deleteMany({
+        where: { signerAddressId: oldAddress.id, walletId: { in: swappedWalletIds } },
+      })
+
+      return { created, movedLinks }
+    })
+    const replacement = existing ?? created!
+
+    await recordAuditEvent(session, {
+      action: 'signer_address.replace',
+      entityType: 'signer_address',
+      entityId: oldAddress.id,
+      before: { address: oldAddress.address, walletIds: movedLinks.map((link) => link.walletId) },
+      after: {
+        addressId: replacement.id,
+        address: replacement.address,
+        ...(skipped.length > 0 ? { skippedWalletIds: skipped.map((safe) => safe.walletId) } : {}),
+      },
+    })
+    if (created) {
+      await recordVersion('signer_address', toVersionedSignerAddress(created), session.username)
+    }
+
+    // The swaps changed these Safes' owners - drop cached Safe API responses
+    await invalidateSafeApiCache(
+      oldAddress.address,
+      replacement.address,
+      ...movedLinks.map((link) => link.wallet.address)
+    )
+
+    // Sync to JSON file
+    try {
+      await syncSignersToJson()
+    } catch (error) {
+      console.error('Failed to sync signers to JSON:', error)
+      // Don't fail the request if JSON sync fails
+    }
+
+    return NextResponse.json({
+      oldAddressId: oldAddress.id,
+      newAddress: replacement,
+      movedLinks: movedLinks.length,
+      skipped,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Confirm address replacement error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
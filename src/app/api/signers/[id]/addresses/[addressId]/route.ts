@@ -1,12 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { recordVersion } from '@/lib/versions'
+import { toVersionedSignerAddress } from '@/lib/address-types'
 import { syncSignersToJson } from '@/lib/json-sync'
+import { invalidateSafeApiCache } from '@/lib/safe-cache'
 import { z } from 'zod'
 
 const updateAddressSchema = z.object({
   name: z.string().optional(),
   type: z.string().optional(),
+  addressTypeId: z.string().nullable().optional(),
+  serialRef: z.string().optional(),
+  storageLocation: z.string().optional(),
+  acquiredAt: z.iso.date().nullable().optional(),
 })
 
 export async function PUT(
@@ -14,18 +22,16 @@ export async function PUT(
   { params }: { params: Promise<{ id: string; addressId: string }> }
 ) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('signer:manage')
 
     const { id, addressId } = await params
     const body = await request.json()
-    const { name, type } = updateAddressSchema.parse(body)
+    const { name, type, addressTypeId, serialRef, storageLocation, acquiredAt } = updateAddressSchema.parse(body)
 
     // Verify the address belongs to this signer
     const signerAddress = await db.signerAddress.findUnique({
       where: { id: addressId },
+      include: { addressType: true },
     })
 
     if (!signerAddress || signerAddress.signerId !== id) {
@@ -34,15 +40,35 @@ export async function PUT(
         { status: 404 }
       )
     }
+    if (addressTypeId && !(await db.addressType.findUnique({ where: { id: addressTypeId } }))) {
+      return NextResponse.json({ error: 'Address type not found' }, { status: 400 })
+    }
+
+    // No-op unless the current values were never versioned (e.g. rows from the JSON import)
+    await recordVersion('signer_address', toVersionedSignerAddress(signerAddress), null)
 
     const updated = await db.signerAddress.update({
       where: { id: addressId },
       data: {
         ...(name !== undefined && { name: name.trim() || null }),
         ...(type !== undefined && { type: type.trim() || null }),
+        ...(addressTypeId !== undefined && { addressTypeId: addressTypeId || null }),
+        ...(serialRef !== undefined && { serialRef: serialRef.trim() || null }),
+        ...(storageLocation !== undefined && { storageLocation: storageLocation.trim() || null }),
+        ...(acquiredAt !== undefined && { acquiredAt: acquiredAt ? new Date(acquiredAt) : null }),
       },
+      include: { addressType: true },
     })
 
+    await recordAuditEvent(session, {
+      action: 'signer_address.update',
+      entityType: 'signer_address',
+      entityId: updated.id,
+      before: signerAddress,
+      after: updated,
+    })
+    await recordVersion('signer_address', toVersionedSignerAddress(updated), session.username)
+
     // Sync to JSON file
     try {
       await syncSignersToJson()
@@ -62,6 +88,9 @@ export async function PUT(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Update address error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -75,10 +104,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string; addressId: string }> }
 ) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('signer:manage')
 
     const { id, addressId } = await params
 
@@ -98,6 +124,15 @@ export async function DELETE(
       where: { id: addressId },
     })
 
+    await recordAuditEvent(session, {
+      action: 'signer_address.delete',
+      entityType: 'signer_address',
+      entityId: signerAddress.id,
+      before: signerAddress,
+    })
+
+    await invalidateSafeApiCache(signerAddress.address)
+
     // Sync to JSON file
     try {
       await syncSignersToJson()
@@ -111,6 +146,9 @@ export async function DELETE(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Delete address error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { listVersions, findVersion, recordVersion } from '@/lib/versions'
+import { toVersionedSignerAddress, resolveAddressTypeId } from '@/lib/address-types'
+import { syncSignersToJson } from '@/lib/json-sync'
+import { z } from 'zod'
+
+const restoreSchema = z.object({
+  versionId: z.string().min(1),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; addressId: string }> }
+) {
+  try {
+    await requirePermission('signer:manage')
+
+    const { addressId } = await params
+    return NextResponse.json(await listVersions('signer_address', addressId))
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get address versions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Restore the address label, name, address type and custody details from an earlier version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; addressId: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id, addressId } = await params
+    const body = await request.json()
+    const { versionId } = restoreSchema.parse(body)
+
+    const existing = await db.signerAddress.findUnique({
+      where: { id: addressId },
+      include: { addressType: true },
+    })
+    const version = await findVersion('signer_address', addressId, versionId)
+    if (!existing || existing.signerId !== id || !version) {
+      return NextResponse.json({ error: 'Address or version not found' }, { status: 404 })
+    }
+
+    const text = (field: string) => (typeof version.data[field] === 'string' ? (version.data[field] as string) : null)
+    // Versions from before address types and custody details were versioned leave them as they are
+    const has = (field: string) => field in version.data
+    const acquiredAt = text('acquiredAt')
+
+    const updated = await db.signerAddress.update({
+      where: { id: addressId },
+      data: {
+        name: text('name'),
+        type: text('type'),
+        ...(has('addressType') && { addressTypeId: await resolveAddressTypeId(text('addressType')) }),
+        ...(has('serialRef') && { serialRef: text('serialRef') }),
+        ...(has('storageLocation') && { storageLocation: text('storageLocation') }),
+        ...(has('acquiredAt') && { acquiredAt: acquiredAt ? new Date(acquiredAt) : null }),
+      },
+      include: { addressType: true },
+    })
+
+    await recordAuditEvent(session, {
+      action: 'signer_address.restore',
+      entityType: 'signer_address',
+      entityId: updated.id,
+      before: existing,
+      after: { ...updated, restoredVersion: version.version },
+    })
+    await recordVersion('signer_address', toVersionedSignerAddress(updated), session.username)
+
+    // Sync to JSON file
+    try {
+      await syncSignersToJson()
+    } catch (error) {
+      console.error('Failed to sync signers to JSON:', error)
+      // Don't fail the request if JSON sync fails
+    }
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Restore address version error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
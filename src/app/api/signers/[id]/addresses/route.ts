@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { z } from 'zod'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { recordVersion } from '@/lib/versions'
+import { toVersionedSignerAddress } from '@/lib/address-types'
 import { syncSignersToJson } from '@/lib/json-sync'
+import { invalidateSafeApiCache } from '@/lib/safe-cache'
 
 const addAddressSchema = z.object({
   address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format'),
   type: z.string().optional(),
   name: z.string().optional(),
+  addressTypeId: z.string().optional(),
 })
 
 export async function POST(
@@ -15,14 +20,17 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('signer:manage')
 
     const { id } = await params
     const body = await request.json()
-    const { address, type, name } = addAddressSchema.parse(body)
+    const { address, type, name, addressTypeId } = addAddressSchema.parse(body)
+
+    // Removed signers must be restored before they get new addresses
+    const signer = await db.signer.findUnique({ where: { id }, select: { deletedAt: true } })
+    if (!signer || signer.deletedAt) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
 
     // Check if address already exists
     const existing = await db.signerAddress.findUnique({
@@ -35,6 +43,9 @@ export async function POST(
         { status: 400 }
       )
     }
+    if (addressTypeId && !(await db.addressType.findUnique({ where: { id: addressTypeId } }))) {
+      return NextResponse.json({ error: 'Address type not found' }, { status: 400 })
+    }
 
     const signerAddress = await db.signerAddress.create({
       data: {
@@ -42,12 +53,24 @@ export async function POST(
         address: address.toLowerCase(),
         type: type?.trim() || null,
         name: name?.trim() || null,
+        addressTypeId: addressTypeId || null,
       },
       include: {
         signer: true,
+        addressType: true,
       },
     })
 
+    await recordAuditEvent(session, {
+      action: 'signer_address.create',
+      entityType: 'signer_address',
+      entityId: signerAddress.id,
+      after: { ...signerAddress, signer: undefined },
+    })
+    await recordVersion('signer_address', toVersionedSignerAddress(signerAddress), session.username)
+
+    await invalidateSafeApiCache(signerAddress.address)
+
     // Sync to JSON file
     try {
       await syncSignersToJson()
@@ -67,6 +90,9 @@ export async function POST(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Add address error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -2,13 +2,16 @@ import { NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { getSafesByOwner } from '@/lib/safeApi'
 import { SUPPORTED_CHAINS } from '@/lib/chains'
-import type { WalletBasicInfo } from '@/types'
+import { trackSafeApiCache, withCacheAge } from '@/lib/safe-cache'
+import { walletTagsInclude, toTagSummaries } from '@/lib/tags'
+import type { ChainLookupStatus, LiveWalletsResponse, WalletBasicInfo } from '@/types'
 
 export async function GET(
   _request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    trackSafeApiCache()
     const { id } = await params
 
     const signer = await db.signer.findUnique({
@@ -26,7 +29,7 @@ export async function GET(
     // This ensures we don't miss wallets just because they're not in our database yet
 
     // Map DB wallets for enrichment (name, tag, id) but don't filter by them
-    const allWallets = await db.wallet.findMany()
+    const allWallets = await db.wallet.findMany({ include: walletTagsInclude })
     const walletMap = new Map<string, typeof allWallets[number]>()
     for (const w of allWallets) {
       walletMap.set(`${w.address.toLowerCase()}-${w.chainId}`, w)
@@ -35,10 +38,31 @@ export async function GET(
     const walletsWhereSignerIsOwner: WalletBasicInfo[] = []
 
     // For each signer address, fetch ALL Safes where it's an owner across ALL chains
-    for (const signerAddress of signer.addresses) {
-      // Query ALL supported chains (not just chains in DB)
-      const safesByChain = await getSafesByOwner(signerAddress.address)
+    // Addresses run concurrently; the Safe API client enforces the shared request budget
+    const lookups = await Promise.all(
+      signer.addresses.map((signerAddress) => getSafesByOwner(signerAddress.address))
+    )
 
+    // Merge per-chain status across addresses: any failure makes the chain incomplete
+    const chains: Record<number, ChainLookupStatus> = {}
+    lookups.forEach(({ chains: addressChains }, index) => {
+      const address = signer.addresses[index].address
+      for (const [chainIdStr, status] of Object.entries(addressChains)) {
+        const chainId = parseInt(chainIdStr, 10)
+        const current = chains[chainId]
+        if (status.status === 'error') {
+          const message = `${address}: ${status.message || 'Unknown error'}`
+          chains[chainId] = {
+            status: 'error',
+            message: current?.status === 'error' ? `${current.message}; ${message}` : message,
+          }
+        } else if (!current || (current.status === 'empty' && status.status === 'ok')) {
+          chains[chainId] = status
+        }
+      }
+    })
+
+    for (const { safesByChain } of lookups) {
       for (const [chainIdStr, safes] of Object.entries(safesByChain)) {
         const chainId = parseInt(chainIdStr, 10)
         for (const safe of safes) {
@@ -52,7 +76,7 @@ export async function GET(
             address: safe.address,
             name: dbWallet?.name || safe.name || null,
             chainId,
-            tag: dbWallet?.tag || null,
+            tags: dbWallet ? toTagSummaries(dbWallet.walletTags) : [],
             threshold: safe.threshold,
             totalSigners: safe.totalOwners,
           })
@@ -67,7 +91,8 @@ export async function GET(
       if (!unique.has(key)) unique.set(key, w)
     }
 
-    const res = NextResponse.json({ wallets: Array.from(unique.values()) })
+    const body: LiveWalletsResponse = { wallets: Array.from(unique.values()), chains }
+    const res = withCacheAge(NextResponse.json(body))
 
     // Browser cache: short-lived private cache + SWR.
     // This reduces repeated Safe calls when navigating around internally.
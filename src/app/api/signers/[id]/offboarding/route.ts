@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { findSafesOwnedBy, buildOffboardingSafePlan, groupPlansByChain } from '@/lib/owner-changes'
+import { trackSafeApiCache, withCacheAge } from '@/lib/safe-cache'
+import type { OwnerChangePlan } from '@/types'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    trackSafeApiCache()
+    await requirePermission('signer:manage')
+
+    const { id } = await params
+
+    const signer = await db.signer.findUnique({
+      where: { id },
+      include: {
+        addresses: { orderBy: { createdAt: 'asc' } },
+      },
+    })
+
+    if (!signer) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+
+    const addresses = signer.addresses.map((a) => a.address)
+    const { safes, failedChains } = await findSafesOwnedBy(addresses, { fresh: true })
+    const plans = safes.map((safe) => buildOffboardingSafePlan(safe, signer.name))
+
+    const plan: OwnerChangePlan = {
+      signerId: signer.id,
+      signerName: signer.name,
+      addresses,
+      chains: await groupPlansByChain(plans),
+      failedChains,
+    }
+
+    return withCacheAge(NextResponse.json(plan))
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get offboarding plan error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
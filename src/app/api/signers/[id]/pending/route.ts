@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { getSignerPendingSignatures } from '@/lib/pending-signatures'
+import { trackSafeApiCache, withCacheAge } from '@/lib/safe-cache'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Allow public access to view pending signatures - no auth required
+    trackSafeApiCache()
+    const { id } = await params
+
+    const signer = await db.signer.findUnique({
+      where: { id },
+      include: {
+        addresses: { orderBy: { createdAt: 'asc' } },
+      },
+    })
+
+    if (!signer) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+
+    const pending = await getSignerPendingSignatures(signer)
+
+    return withCacheAge(NextResponse.json(pending))
+  } catch (error) {
+    console.error('Get signer pending signatures error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,14 +2,40 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { syncSignersToJson } from '@/lib/json-sync'
 import { z } from 'zod'
-import { requireAuth } from '@/lib/auth'
+import { getSession, requirePermission, type Session } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { recordVersion } from '@/lib/versions'
+import { walletTagsInclude, toTagSummaries } from '@/lib/tags'
+import { toVersionedSigner } from '@/lib/departments'
+import { SIGNER_STATUSES } from '@/lib/signer-status'
+import { disableSignerAccounts } from '@/lib/siwe-login'
 import type { SignerWithWallets, WalletBasicInfo } from '@/types'
 
 const updateSignerSchema = z.object({
   name: z.string().min(1).optional(),
-  department: z.string().optional(),
+  departmentId: z.string().nullable().optional(),
+  status: z.enum(SIGNER_STATUSES).optional(),
+  statusSince: z.iso.date().optional(), // Defaults to today when the status changes
+  statusUntil: z.iso.date().nullable().optional(), // Only kept while on leave
+  deleted: z.literal(false).optional(), // Restore a removed signer
 })
 
+/**
+ * Disable the signer's Sign-In with Ethereum accounts, recording which ones in the audit log
+ */
+async function disableAccounts(session: Session, signerId: string) {
+  const users = await disableSignerAccounts(signerId)
+  if (users.length === 0) return
+
+  await recordAuditEvent(session, {
+    action: 'signer.disable_accounts',
+    entityType: 'signer',
+    entityId: signerId,
+    before: users.map((user) => ({ ...user, disabledAt: null })),
+    after: users.map((user) => ({ ...user, disabledAt: new Date() })),
+  })
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -21,7 +47,9 @@ export async function GET(
     const signer = await db.signer.findUnique({
       where: { id },
       include: {
+        department: true,
         addresses: {
+          include: { addressType: true },
           orderBy: { createdAt: 'asc' },
         },
       },
@@ -36,7 +64,7 @@ export async function GET(
     const signerAddressIds = signer.addresses.map((a) => a.id)
     const walletLinks = await db.walletSigner.findMany({
       where: { signerAddressId: { in: signerAddressIds } },
-      include: { wallet: true },
+      include: { wallet: { include: walletTagsInclude } },
     })
 
     const uniqueWallets = new Map<string, WalletBasicInfo>()
@@ -49,22 +77,40 @@ export async function GET(
           address: w.address,
           name: w.name,
           chainId: w.chainId,
-          tag: w.tag,
+          tags: toTagSummaries(w.walletTags),
           threshold: 0,
           totalSigners: 0,
         })
       }
     }
 
+    // Custody details say where each key is kept, so only signer managers see them
+    const session = await getSession()
+    const showCustody = !!session?.permissions.includes('signer:manage')
+
     const signerWithWallets: SignerWithWallets = {
       id: signer.id,
       name: signer.name,
-      department: signer.department,
+      departmentId: signer.departmentId,
+      department: signer.department?.name ?? null,
+      status: signer.status,
+      statusSince: signer.statusSince,
+      statusUntil: signer.statusUntil,
+      deletedAt: signer.deletedAt,
       addresses: signer.addresses.map((addr) => ({
         id: addr.id,
         address: addr.address,
         name: addr.name,
         type: addr.type,
+        addressTypeId: addr.addressTypeId,
+        addressType: addr.addressType
+          ? { id: addr.addressType.id, name: addr.addressType.name, custody: addr.addressType.custody }
+          : null,
+        ...(showCustody && {
+          serialRef: addr.serialRef,
+          storageLocation: addr.storageLocation,
+          acquiredAt: addr.acquiredAt,
+        }),
         createdAt: addr.createdAt,
       })),
       wallets: Array.from(uniqueWallets.values()),
@@ -87,26 +133,61 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('signer:manage')
 
     const { id } = await params
     const body = await request.json()
-    const { name, department } = updateSignerSchema.parse(body)
+    const { name, departmentId, status, statusSince, statusUntil, deleted } = updateSignerSchema.parse(body)
+
+    const existing = await db.signer.findUnique({ where: { id }, include: { department: true } })
+    // A removed signer can only be edited as part of restoring it, like DELETE treats it as gone
+    if (!existing || (existing.deletedAt && deleted !== false)) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+    if (departmentId && !(await db.department.findUnique({ where: { id: departmentId } }))) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 400 })
+    }
+    if (statusSince && new Date(statusSince).getTime() > Date.now()) {
+      return NextResponse.json({ error: 'Status cannot take effect in the future' }, { status: 400 })
+    }
+
+    const nextStatus = status ?? existing.status
+    const statusChanged = nextStatus !== existing.status
+
+    // No-op unless the current values were never versioned (e.g. rows from the JSON import)
+    await recordVersion('signer', toVersionedSigner(existing), null)
 
     const signer = await db.signer.update({
       where: { id },
       data: {
         ...(name !== undefined && { name }),
-        ...(department !== undefined && { department: department || null }),
+        ...(departmentId !== undefined && { departmentId: departmentId || null }),
+        ...(status !== undefined && { status }),
+        ...((statusChanged || statusSince) && { statusSince: statusSince ? new Date(statusSince) : new Date() }),
+        ...(nextStatus !== 'on_leave'
+          ? { statusUntil: null }
+          : statusUntil !== undefined && { statusUntil: statusUntil ? new Date(statusUntil) : null }),
+        ...(deleted === false && { deletedAt: null }),
       },
       include: {
+        department: true,
         addresses: true,
       },
     })
 
+    await recordAuditEvent(session, {
+      action: 'signer.update',
+      entityType: 'signer',
+      entityId: signer.id,
+      before: toVersionedSigner(existing),
+      after: { ...toVersionedSigner(signer), addresses: undefined },
+    })
+    if (statusChanged && nextStatus === 'offboarded') {
+      // Offboarded signers lose the accounts Sign-In with Ethereum created for them
+      await disableAccounts(session, id)
+    }
+    await recordVersion('signer', toVersionedSigner(signer), session.username)
+
     // Sync to JSON file
     try {
       await syncSignersToJson()
@@ -126,6 +207,9 @@ export async function PUT(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Update signer error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -139,17 +223,34 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('signer:manage')
 
     const { id } = await params
 
-    await db.signer.delete({
+    const existing = await db.signer.findUnique({ where: { id }, include: { department: true } })
+    if (!existing || existing.deletedAt) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+
+    // Soft delete: addresses and wallet links stay so on-chain owners still map to this signer
+    const signer = await db.signer.update({
       where: { id },
+      data: {
+        deletedAt: new Date(),
+        ...(existing.status !== 'offboarded' && { status: 'offboarded', statusSince: new Date(), statusUntil: null }),
+      },
+      include: { department: true },
     })
 
+    await recordAuditEvent(session, {
+      action: 'signer.delete',
+      entityType: 'signer',
+      entityId: signer.id,
+      before: toVersionedSigner(existing),
+      after: toVersionedSigner(signer),
+    })
+    await disableAccounts(session, id)
+
     // Sync to JSON file
     try {
       await syncSignersToJson()
@@ -163,6 +264,9 @@ export async function DELETE(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Delete signer error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { listVersions, findVersion, recordVersion } from '@/lib/versions'
+import { resolveDepartmentId, toVersionedSigner } from '@/lib/departments'
+import { syncSignersToJson } from '@/lib/json-sync'
+import { z } from 'zod'
+
+const restoreSchema = z.object({
+  versionId: z.string().min(1),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requirePermission('signer:manage')
+
+    const { id } = await params
+    return NextResponse.json(await listVersions('signer', id))
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get signer versions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Restore name and department from an earlier version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('signer:manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const { versionId } = restoreSchema.parse(body)
+
+    const existing = await db.signer.findUnique({ where: { id }, include: { department: true } })
+    if (!existing || existing.deletedAt) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+    const version = await findVersion('signer', id, versionId)
+    if (!version) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+
+    const signer = await db.signer.update({
+      where: { id },
+      data: {
+        name: typeof version.data.name === 'string' ? version.data.name : existing.name,
+        // Department renames and merges are applied to stored versions; a department deleted since then is recreated
+        departmentId: await resolveDepartmentId(typeof version.data.department === 'string' ? version.data.department : null),
+      },
+      include: { department: true },
+    })
+
+    await recordAuditEvent(session, {
+      action: 'signer.restore',
+      entityType: 'signer',
+      entityId: signer.id,
+      before: toVersionedSigner(existing),
+      after: { ...toVersionedSigner(signer), restoredVersion: version.version },
+    })
+    await recordVersion('signer', toVersionedSigner(signer), session.username)
+
+    // Sync to JSON file
+    try {
+      await syncSignersToJson()
+    } catch (error) {
+      console.error('Failed to sync signers to JSON:', error)
+      // Don't fail the request if JSON sync fails
+    }
+
+    return NextResponse.json(signer)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Restore signer version error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
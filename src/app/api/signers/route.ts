@@ -2,11 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { syncSignersToJson } from '@/lib/json-sync'
 import { z } from 'zod'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { recordVersion } from '@/lib/versions'
+import { toVersionedSigner } from '@/lib/departments'
+import { toVersionedSignerAddress } from '@/lib/address-types'
+import { getLastConfirmationByOwner } from '@/lib/participation'
 
 const createSignerSchema = z.object({
   name: z.string().min(1),
-  department: z.string().optional(),
+  departmentId: z.string().nullable().optional(),
   addresses: z.array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format')).min(1),
 })
 
@@ -15,8 +20,10 @@ export async function GET(request: NextRequest) {
     // Allow public access to view signers - no auth required
     const searchParams = request.nextUrl.searchParams
     const search = searchParams.get('search')
+    const idleDays = parseInt(searchParams.get('idleDays') || '', 10)
+    const includeDeleted = searchParams.get('includeDeleted') === 'true'
 
-    const where: any = {}
+    const where: any = includeDeleted ? {} : { deletedAt: null }
     if (search) {
       where.OR = [
         { name: { contains: search, mode: 'insensitive' } },
@@ -27,6 +34,7 @@ export async function GET(request: NextRequest) {
     const signers = await db.signer.findMany({
       where,
       include: {
+        department: { select: { name: true } },
         addresses: {
           orderBy: { createdAt: 'asc' },
           select: {
@@ -37,12 +45,16 @@ export async function GET(request: NextRequest) {
             signerId: true,
             name: true,
             type: true,
+            lastOutgoingTxAt: true,
           },
         },
       },
       orderBy: { createdAt: 'desc' },
     })
 
+    // Last activity = latest of stored Safe confirmations and the EOA's last outgoing tx (if an RPC is configured)
+    const lastConfirmationByOwner = await getLastConfirmationByOwner()
+
     // OPTIMIZATION: Fetch all wallet-signer relationships in ONE query instead of N+1 queries
     const allAddressIds = signers.flatMap(s => s.addresses.map(a => a.id))
     
@@ -73,10 +85,18 @@ export async function GET(request: NextRequest) {
       address: string
       signerId: string
       signerName: string
+      departmentId: string | null
       department: string | null
+      status: string
+      statusSince: Date
+      statusUntil: Date | null
+      deletedAt: Date | null
       walletCount: number
       addressName: string | null
       addressType: string | null
+      lastConfirmedAt: Date | null
+      lastOutgoingTxAt: Date | null
+      lastActivity: Date | null
     }> = []
 
     for (const signer of signers) {
@@ -94,15 +114,30 @@ export async function GET(request: NextRequest) {
         // Get wallet count from map (O(1) lookup instead of database query)
         const walletCount = walletCountMap.get(address.id) || 0
 
+        const lastConfirmedAt = lastConfirmationByOwner.get(address.address.toLowerCase()) || null
+        const lastOutgoingTxAt = address.lastOutgoingTxAt
+        const lastActivity =
+          lastConfirmedAt && lastOutgoingTxAt
+            ? (lastConfirmedAt > lastOutgoingTxAt ? lastConfirmedAt : lastOutgoingTxAt)
+            : lastConfirmedAt || lastOutgoingTxAt
+
         addressRows.push({
           id: address.id,
           address: address.address.toLowerCase(),
           signerId: signer.id,
           signerName: signer.name,
-          department: signer.department,
+          departmentId: signer.departmentId,
+          department: signer.department?.name ?? null,
+          status: signer.status,
+          statusSince: signer.statusSince,
+          statusUntil: signer.statusUntil,
+          deletedAt: signer.deletedAt,
           walletCount,
           addressName: address.name || null,
           addressType: address.type || null,
+          lastConfirmedAt,
+          lastOutgoingTxAt,
+          lastActivity,
         })
       }
     }
@@ -110,6 +145,14 @@ export async function GET(request: NextRequest) {
     // Sort by address for consistent ordering
     addressRows.sort((a, b) => a.address.localeCompare(b.address))
 
+    // Only addresses with no recorded activity in the last `idleDays` days
+    if (Number.isFinite(idleDays) && idleDays > 0) {
+      const idleSince = new Date(Date.now() - idleDays * 24 * 60 * 60 * 1000)
+      return NextResponse.json(
+        addressRows.filter((row) => !row.lastActivity || row.lastActivity < idleSince)
+      )
+    }
+
     return NextResponse.json(addressRows)
   } catch (error) {
     console.error('Get signers error:', error)
@@ -122,13 +165,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('signer:manage')
 
     const body = await request.json()
-    const { name, department, addresses } = createSignerSchema.parse(body)
+    const { name, departmentId, addresses } = createSignerSchema.parse(body)
 
     // Normalize addresses to lowercase for comparison
     const normalizedAddresses = addresses.map((addr: string) => addr.toLowerCase())
@@ -155,7 +195,10 @@ export async function POST(request: NextRequest) {
 
     if (existingAddresses.length > 0) {
       const duplicateAddresses = existingAddresses.map((sa) => sa.address)
-      const signerNames = [...new Set(existingAddresses.map((sa) => sa.signer.name))]
+      // Removed signers keep their addresses; restoring them is the way to bring them back
+      const signerNames = [
+        ...new Set(existingAddresses.map((sa) => (sa.signer.deletedAt ? `${sa.signer.name} (removed)` : sa.signer.name))),
+      ]
       return NextResponse.json(
         { 
           error: `One or more addresses are already associated with another signer${signerNames.length > 1 ? 's' : ''}: ${signerNames.join(', ')}. Duplicate addresses: ${duplicateAddresses.join(', ')}` 
@@ -164,6 +207,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (departmentId && !(await db.department.findUnique({ where: { id: departmentId } }))) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 400 })
+    }
+
     // No need to validate signer addresses via Safe API
     // Signers are EOA (Externally Owned Account) addresses, not Safe wallets
     // The duplicate check above is sufficient validation
@@ -171,16 +218,28 @@ export async function POST(request: NextRequest) {
     const signer = await db.signer.create({
       data: {
         name,
-        department: department || null,
+        departmentId: departmentId || null,
         addresses: {
           create: normalizedAddresses.map((address) => ({ address })),
         },
       },
       include: {
-        addresses: true,
+        department: true,
+        addresses: { include: { addressType: true } },
       },
     })
 
+    await recordAuditEvent(session, {
+      action: 'signer.create',
+      entityType: 'signer',
+      entityId: signer.id,
+      after: toVersionedSigner(signer),
+    })
+    await recordVersion('signer', toVersionedSigner(signer), session.username)
+    for (const signerAddress of signer.addresses) {
+      await recordVersion('signer_address', toVersionedSignerAddress(signerAddress), session.username)
+    }
+
     // Sync to JSON file
     try {
       await syncSignersToJson()
@@ -200,6 +259,9 @@ export async function POST(request: NextRequest) {
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Create signer error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
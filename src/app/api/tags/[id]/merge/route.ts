@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { renameTagInVersions } from '@/lib/tags'
+import { z } from 'zod'
+
+const mergeTagSchema = z.object({
+  targetId: z.string().min(1),
+})
+
+/**
+ * Merge this tag into another: its wallets get the target tag and this tag is deleted
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('tag:manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const { targetId } = mergeTagSchema.parse(body)
+
+    if (targetId === id) {
+      return NextResponse.json({ error: 'Cannot merge a tag into itself' }, { status: 400 })
+    }
+
+    const [source, target] = await Promise.all([
+      db.tag.findUnique({ where: { id }, include: { walletTags: { select: { walletId: true } } } }),
+      db.tag.findUnique({ where: { id: targetId } }),
+    ])
+    if (!source || !target) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 })
+    }
+
+    const walletIds = source.walletTags.map((link) => link.walletId)
+    await db.$transaction([
+      db.walletTag.createMany({
+        data: walletIds.map((walletId) => ({ walletId, tagId: target.id })),
+        skipDuplicates: true,
+      }),
+      db.tag.delete({ where: { id: source.id } }),
+    ])
+
+    await renameTagInVersions(source.name, target.name)
+
+    await recordAuditEvent(session, {
+      action: 'tag.merge',
+      entityType: 'tag',
+      entityId: target.id,
+      before: { merged: { id: source.id, name: source.name }, walletIds },
+      after: { id: target.id, name: target.name },
+    })
+
+    return NextResponse.json({ targetId: target.id, movedWallets: walletIds.length })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Merge tag error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
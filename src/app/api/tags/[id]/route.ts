@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { renameTagInVersions } from '@/lib/tags'
+import { TAG_COLORS } from '@/lib/tag-colors'
+import { z } from 'zod'
+
+const updateTagSchema = z.object({
+  name: z.string().trim().min(1).max(50).optional(),
+  color: z.enum(TAG_COLORS).optional(),
+  description: z.string().optional(),
+})
+
+/**
+ * Rename or recolor a tag. Wallets reference tags by id, so a rename shows up everywhere.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('tag:manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const { name, color, description } = updateTagSchema.parse(body)
+
+    const existing = await db.tag.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 })
+    }
+
+    if (name !== undefined && name !== existing.name) {
+      const conflict = await db.tag.findFirst({
+        where: { id: { not: id }, name: { equals: name, mode: 'insensitive' } },
+      })
+      if (conflict) {
+        return NextResponse.json(
+          { error: `Tag "${conflict.name}" already exists. Merge the tags instead.` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const tag = await db.tag.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(color !== undefined && { color }),
+        ...(description !== undefined && { description: description.trim() || null }),
+      },
+    })
+
+    if (tag.name !== existing.name) {
+      await renameTagInVersions(existing.name, tag.name)
+    }
+
+    await recordAuditEvent(session, {
+      action: 'tag.update',
+      entityType: 'tag',
+      entityId: tag.id,
+      before: existing,
+      after: tag,
+    })
+
+    return NextResponse.json(tag)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Update tag error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete a tag and remove it from every wallet
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('tag:manage')
+
+    const { id } = await params
+
+    const tag = await db.tag.findUnique({
+      where: { id },
+      include: { walletTags: { select: { walletId: true } } },
+    })
+    if (!tag) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 })
+    }
+
+    await db.tag.delete({ where: { id } })
+
+    await recordAuditEvent(session, {
+      action: 'tag.delete',
+      entityType: 'tag',
+      entityId: tag.id,
+      before: { ...tag, walletTags: undefined, walletIds: tag.walletTags.map((link) => link.walletId) },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Delete tag error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { TAG_COLORS } from '@/lib/tag-colors'
+import { z } from 'zod'
+import type { TagWithUsage } from '@/types'
+
+const createTagSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: z.enum(TAG_COLORS).optional(),
+  description: z.string().optional(),
+})
+
+export async function GET() {
+  try {
+    // Allow public access to the tag catalog - used for wallet filters
+    const tags = await db.tag.findMany({
+      include: { _count: { select: { walletTags: true } } },
+      orderBy: { name: 'asc' },
+    })
+
+    const result: TagWithUsage[] = tags.map((tag) => ({
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      description: tag.description,
+      walletCount: tag._count.walletTags,
+    }))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Get tags error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('tag:manage')
+
+    const body = await request.json()
+    const { name, color, description } = createTagSchema.parse(body)
+
+    const existing = await db.tag.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    })
+    if (existing) {
+      return NextResponse.json({ error: `Tag "${existing.name}" already exists` }, { status: 400 })
+    }
+
+    const tag = await db.tag.create({
+      data: {
+        name,
+        ...(color && { color }),
+        description: description?.trim() || null,
+      },
+    })
+
+    await recordAuditEvent(session, {
+      action: 'tag.create',
+      entityType: 'tag',
+      entityId: tag.id,
+      after: tag,
+    })
+
+    return NextResponse.json(tag, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Create tag error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAddress } from 'ethers'
+import { db } from '@/lib/db'
+import { requirePermission, hashPassword, revokeUserSessions, MIN_PASSWORD_LENGTH } from '@/lib/auth'
+import { ROLES } from '@/lib/permissions'
+import { z } from 'zod'
+
+const updateUserSchema = z.object({
+  password: z.string().min(MIN_PASSWORD_LENGTH).optional(), // Admin password reset
+  role: z.enum(ROLES).optional(),
+  disabled: z.boolean().optional(),
+  resetTwoFactor: z.literal(true).optional(), // For users who lost their authenticator
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format').nullable().optional(), // null unlinks
+})
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('user:manage')
+
+    const { id } = await params
+    const body = await request.json()
+    const { password, role, disabled, address, resetTwoFactor } = updateUserSchema.parse(body)
+
+    const user = await db.user.findUnique({ where: { id } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Keep at least one way back in: admins cannot lock themselves out
+    if (id === session.userId && ((role !== undefined && role !== 'admin') || disabled === true)) {
+      return NextResponse.json(
+        { error: 'You cannot change your own role or disable your own account' },
+        { status: 400 }
+      )
+    }
+
+    const checksummed = address ? getAddress(address.toLowerCase()) : address
+    if (checksummed) {
+      const linked = await db.user.findUnique({ where: { address: checksummed } })
+      if (linked && linked.id !== id) {
+        return NextResponse.json(
+          { error: 'Another user is already linked to this address' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const updated = await db.user.update({
+      where: { id },
+      data: {
+        ...(password !== undefined && { passwordHash: await hashPassword(password) }),
+        ...(role !== undefined && { role }),
+        ...(checksummed !== undefined && { address: checksummed }),
+        ...(resetTwoFactor && {
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+          totpRecoveryCodes: [],
+        }),
+        ...(disabled !== undefined && { disabledAt: disabled ? user.disabledAt || new Date() : null }),
+      },
+    })
+
+    // A reset password or disabled account should not leave old sessions alive, and a
+    // promoted admin must sign in again so the two-factor check applies
+    const promotedToAdmin = role === 'admin' && user.role !== 'admin'
+    if (password !== undefined || disabled === true || promotedToAdmin) {
+      await revokeUserSessions(id)
+    }
+
+    return NextResponse.json({
+      id: updated.id,
+      username: updated.username,
+      role: updated.role,
+      address: updated.address,
+      disabledAt: updated.disabledAt,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Update user error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('user:manage')
+
+    const { id } = await params
+
+    if (id === session.userId) {
+      return NextResponse.json(
+        { error: 'You cannot delete your own account' },
+        { status: 400 }
+      )
+    }
+
+    const user = await db.user.findUnique({ where: { id } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Sessions are removed with the user (cascade)
+    await db.user.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Delete user error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
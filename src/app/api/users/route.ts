@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAddress } from 'ethers'
+import { db } from '@/lib/db'
+import { requirePermission, hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/auth'
+import { ROLES } from '@/lib/permissions'
+import type { UserAccount } from '@/types'
+import { z } from 'zod'
+
+const createUserSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(MIN_PASSWORD_LENGTH),
+  role: z.enum(ROLES).optional(),
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format').optional(),
+})
+
+export async function GET() {
+  try {
+    await requirePermission('user:manage')
+
+    const users = await db.user.findMany({
+      orderBy: { username: 'asc' },
+      include: {
+        _count: {
+          select: { sessions: { where: { revokedAt: null, expiresAt: { gt: new Date() } } } },
+        },
+      },
+    })
+
+    const result: UserAccount[] = users.map((user) => ({
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      address: user.address,
+      signerId: user.signerId,
+      disabledAt: user.disabledAt?.toISOString() || null,
+      twoFactorEnabled: !!user.totpEnabledAt,
+      createdAt: user.createdAt.toISOString(),
+      activeSessions: user._count.sessions,
+    }))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get users error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('user:manage')
+
+    const body = await request.json()
+    const { username, password, role, address } = createUserSchema.parse(body)
+
+    const existing = await db.user.findUnique({ where: { username } })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A user with this username already exists' },
+        { status: 400 }
+      )
+    }
+
+    const checksummed = address ? getAddress(address.toLowerCase()) : null
+    if (checksummed && (await db.user.findUnique({ where: { address: checksummed } }))) {
+      return NextResponse.json(
+        { error: 'Another user is already linked to this address' },
+        { status: 400 }
+      )
+    }
+
+    const user = await db.user.create({
+      data: {
+        username,
+        passwordHash: await hashPassword(password),
+        role: role || 'viewer',
+        address: checksummed,
+      },
+    })
+
+    return NextResponse.json(
+      { id: user.id, username: user.username, role: user.role },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Create user error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSafeInfoOnChain, isSafeNotFoundError } from '@/lib/safeApi'
+import { recordWalletSnapshot } from '@/lib/snapshots'
+import {
+  findWalletWithLinks,
+  getSignerAddressMap,
+  computeWalletDrift,
+  getPreviousThreshold,
+} from '@/lib/drift'
+import { trackSafeApiCache, withCacheAge, getSafeApiFetchedAt } from '@/lib/safe-cache'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Allow public access to view wallet drift - no auth required
+    trackSafeApiCache()
+    const { id } = await params
+
+    const wallet = await findWalletWithLinks(id)
+    if (!wallet) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
+    let safeInfo
+    try {
+      safeInfo = await getSafeInfoOnChain(wallet.address, wallet.chainId)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return NextResponse.json(
+        { error: `Failed to fetch live Safe owners: ${errorMessage}` },
+        { status: isSafeNotFoundError(error) ? 404 : 502 }
+      )
+    }
+
+    // Compare against the stored history before this fetch is added to it
+    const fetchedAt = getSafeApiFetchedAt()
+    const [previousThreshold, signerAddressMap] = await Promise.all([
+      getPreviousThreshold(wallet, safeInfo.threshold),
+      getSignerAddressMap(),
+    ])
+
+    const drift = computeWalletDrift(
+      wallet,
+      { owners: safeInfo.owners, threshold: safeInfo.threshold, fetchedAt },
+      previousThreshold,
+      signerAddressMap
+    )
+
+    await recordWalletSnapshot(wallet.id, safeInfo, fetchedAt)
+
+    return withCacheAge(NextResponse.json(drift))
+  } catch (error) {
+    console.error('Get wallet drift error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { getTransactionHistory } from '@/lib/safeApi'
+import { getSignerAddressMap } from '@/lib/drift'
+import { trackSafeApiCache, withCacheAge } from '@/lib/safe-cache'
+import type { WalletHistory } from '@/types'
+
+const PAGE_SIZE = 25
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Allow public access to view transaction history - no auth required
+    trackSafeApiCache()
+    const { id } = await params
+    const offset = Math.max(0, parseInt(request.nextUrl.searchParams.get('offset') || '0', 10) || 0)
+
+    const wallet = await db.wallet.findUnique({
+      where: { id },
+    })
+
+    if (!wallet) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
+    let history
+    try {
+      history = await getTransactionHistory(wallet.address, wallet.chainId, PAGE_SIZE, offset)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`[Wallet History] ❌ Failed to fetch history for ${wallet.address} on chain ${wallet.chainId}: ${errorMessage}`)
+      return NextResponse.json(
+        { error: `Failed to fetch transaction history: ${errorMessage}` },
+        { status: 502 }
+      )
+    }
+
+    const signerAddressMap = await getSignerAddressMap()
+
+    const response: WalletHistory = {
+      walletId: wallet.id,
+      count: history.count,
+      offset,
+      hasMore: history.hasMore,
+      transactions: history.transactions.map((tx) => ({
+        ...tx,
+        confirmations: tx.confirmations.map((c) => {
+          const known = signerAddressMap.get(c.owner.toLowerCase())
+          return {
+            address: c.owner,
+            signerId: known?.signer.id || null,
+            signerName: known?.signer.name || null,
+            confirmedAt: c.submissionDate,
+          }
+        }),
+      })),
+    }
+
+    return withCacheAge(NextResponse.json(response))
+  } catch (error) {
+    console.error('Get wallet history error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
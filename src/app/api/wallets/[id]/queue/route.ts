@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { getSafeInfoOnChain, getPendingTransactions } from '@/lib/safeApi'
+import { getSignerAddressMap } from '@/lib/drift'
+import { trackSafeApiCache, withCacheAge } from '@/lib/safe-cache'
+import type { WalletQueue } from '@/types'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Allow public access to view the transaction queue - no auth required
+    trackSafeApiCache()
+    const { id } = await params
+
+    const wallet = await db.wallet.findUnique({
+      where: { id },
+    })
+
+    if (!wallet) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
+    let safeInfo
+    let pending
+    try {
+      // Current nonce filters out proposals that were replaced by an executed transaction; read on the same chain as the queue
+      safeInfo = await getSafeInfoOnChain(wallet.address, wallet.chainId)
+      pending = await getPendingTransactions(wallet.address, wallet.chainId, safeInfo.nonce)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`[Wallet Queue] ❌ Failed to fetch queue for ${wallet.address} on chain ${wallet.chainId}: ${errorMessage}`)
+      return NextResponse.json(
+        { error: `Failed to fetch pending transactions: ${errorMessage}` },
+        { status: 502 }
+      )
+    }
+
+    const signerAddressMap = await getSignerAddressMap()
+
+    const queue: WalletQueue = {
+      walletId: wallet.id,
+      nonce: safeInfo.nonce,
+      threshold: safeInfo.threshold,
+      transactions: pending.map((tx) => {
+        const confirmations = new Map(
+          tx.confirmations.map((c) => [c.owner.toLowerCase(), c.submissionDate])
+        )
+        return {
+          safeTxHash: tx.safeTxHash,
+          nonce: tx.nonce,
+          to: tx.to,
+          value: tx.value,
+          method: tx.method,
+          operation: tx.operation,
+          submissionDate: tx.submissionDate,
+          confirmationsRequired: tx.confirmationsRequired || safeInfo.threshold,
+          confirmationsCollected: tx.confirmations.length,
+          owners: safeInfo.owners.map((owner) => {
+            const known = signerAddressMap.get(owner.toLowerCase())
+            return {
+              address: owner,
+              signerId: known?.signer.id || null,
+              signerName: known?.signer.name || null,
+              signed: confirmations.has(owner.toLowerCase()),
+              signedAt: confirmations.get(owner.toLowerCase()) || null,
+            }
+          }),
+        }
+      }),
+    }
+
+    return withCacheAge(NextResponse.json(queue))
+  } catch (error) {
+    console.error('Get wallet queue error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
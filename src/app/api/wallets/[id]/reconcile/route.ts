@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSafeInfoOnChain, isSafeNotFoundError } from '@/lib/safeApi'
+import { recordWalletSnapshot } from '@/lib/snapshots'
+import {
+  findWalletWithLinks,
+  getSignerAddressMap,
+  computeWalletDrift,
+  getPreviousThreshold,
+  reconcileWalletLinks,
+} from '@/lib/drift'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { invalidateSafeApiCache } from '@/lib/safe-cache'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('wallet:manage')
+
+    const { id } = await params
+
+    const wallet = await findWalletWithLinks(id)
+    if (!wallet) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
+    // Links are only rewritten from live data, never from a stale snapshot or cached response
+    await invalidateSafeApiCache(wallet.address)
+
+    let safeInfo
+    try {
+      safeInfo = await getSafeInfoOnChain(wallet.address, wallet.chainId)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return NextResponse.json(
+        { error: `Failed to fetch live Safe owners: ${errorMessage}` },
+        { status: isSafeNotFoundError(error) ? 404 : 502 }
+      )
+    }
+
+    const previousThreshold = await getPreviousThreshold(wallet, safeInfo.threshold)
+    const fetchedAt = new Date()
+    await recordWalletSnapshot(wallet.id, safeInfo, fetchedAt)
+    const signerAddressMap = await getSignerAddressMap()
+    const { removed, added } = await reconcileWalletLinks(wallet, safeInfo.owners, signerAddressMap)
+
+    // Reconciling also acknowledges the current threshold, so earlier changes stop showing as drift
+    await db.wallet.update({
+      where: { id: wallet.id },
+      data: { driftAcknowledgedAt: fetchedAt },
+    })
+
+    if (removed > 0 || added > 0 || previousThreshold !== null) {
+      await recordAuditEvent(session, {
+        action: 'wallet.reconcile',
+        entityType: 'wallet',
+        entityId: wallet.id,
+        after: {
+          removedLinks: removed,
+          addedLinks: added,
+          owners: safeInfo.owners,
+          threshold: safeInfo.threshold,
+          ...(previousThreshold !== null ? { acknowledgedPreviousThreshold: previousThreshold } : {}),
+        },
+      })
+    }
+
+    // Recompute drift against the rewritten links; only unmapped owners and removed signers should remain
+    const reconciledWallet = await findWalletWithLinks(wallet.id)
+    const drift = computeWalletDrift(
+      reconciledWallet!,
+      { owners: safeInfo.owners, threshold: safeInfo.threshold, fetchedAt },
+      null,
+      signerAddressMap
+    )
+
+    return NextResponse.json({ removed, added, drift })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Reconcile wallet error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
-import { getSafeInfo } from '@/lib/safeApi'
+import { getSafeInfo, getSafeInfoOnChain, isSafeNotFoundError } from '@/lib/safeApi'
 import { syncWalletsToJson } from '@/lib/json-sync'
+import { recordWalletSnapshot, getLatestWalletSnapshot, snapshotToSafeInfo } from '@/lib/snapshots'
+import { trackSafeApiCache, withCacheAge, invalidateSafeApiCache, getSafeApiFetchedAt } from '@/lib/safe-cache'
 import { z } from 'zod'
-import { requireAuth } from '@/lib/auth'
-import type { WalletWithDetails } from '@/types'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { recordVersion } from '@/lib/versions'
+import { walletTagsInclude, serializeWalletTags, toVersionedWallet, toTagSummaries, setWalletTags, findUnknownTagNames } from '@/lib/tags'
+import type { SignerWithAddress, WalletWithDetails } from '@/types'
 
 const updateWalletSchema = z.object({
   name: z.string().optional(),
   chainId: z.number().int().positive().optional(),
-  tag: z.string().optional(),
+  tags: z.array(z.string()).optional(), // Replaces the wallet's tags; unknown names are added to the catalog
 })
 
 export async function GET(
@@ -18,16 +23,18 @@ export async function GET(
 ) {
   try {
     // Allow public access to view wallet details - no auth required
+    trackSafeApiCache()
     const { id } = await params
 
     const wallet = await db.wallet.findUnique({
       where: { id },
       include: {
+        ...walletTagsInclude,
         walletSigners: {
           include: {
             signerAddress: {
               include: {
-                signer: true,
+                signer: { include: { department: true } },
               },
             },
           },
@@ -42,15 +49,34 @@ export async function GET(
     // Fetch fresh data from Safe API
     let safeInfo
     let apiError: string | null = null
+    let snapshotAt: Date | null = null
     
     try {
       // Log the request details for debugging
       console.log(`[Wallet Detail] Fetching Safe info for ${wallet.address} on chain ${wallet.chainId}`)
       
-      safeInfo = await getSafeInfo(wallet.address, wallet.chainId)
+      let onOwnChain = true
+      try {
+        safeInfo = await getSafeInfoOnChain(wallet.address, wallet.chainId)
+      } catch (error) {
+        if (!isSafeNotFoundError(error)) throw error
+        // Show what other networks have at this address, but never store it as this wallet's state
+        safeInfo = await getSafeInfo(wallet.address, wallet.chainId)
+        onOwnChain = false
+      }
       
       // Log threshold for debugging
       console.log(`[Wallet Detail] ✅ Successfully fetched Safe info: threshold=${safeInfo.threshold}, owners=${safeInfo.owners.length}`)
+
+      // Persist a snapshot so we can show last known good data if the Safe API fails later
+      if (onOwnChain) {
+        try {
+          await recordWalletSnapshot(wallet.id, safeInfo, getSafeApiFetchedAt())
+        } catch (snapshotError) {
+          console.error(`[Wallet Detail] Failed to record snapshot for ${wallet.address}:`, snapshotError)
+          // Don't fail the request if snapshot persistence fails
+        }
+      }
     } catch (error) {
       // Log error details with full stack trace
       const errorMessage = error instanceof Error ? error.message : String(error)
@@ -88,31 +114,43 @@ export async function GET(
         console.error(`[Wallet Detail] ❌ Unexpected error:`, error)
       }
       
-      // Only use default values if it's an expected error (not API key issue)
-      safeInfo = {
-        address: wallet.address,
-        threshold: 0,
-        nonce: 0,
-        owners: [],
+      // Fall back to the last known good snapshot, or default values if we have never fetched this Safe
+      const snapshot = await getLatestWalletSnapshot(wallet.id)
+      if (snapshot) {
+        console.warn(`[Wallet Detail] ⚠️ Using snapshot from ${snapshot.fetchedAt.toISOString()} for ${wallet.address}`)
+        safeInfo = snapshotToSafeInfo(wallet.address, snapshot)
+        snapshotAt = snapshot.fetchedAt
+      } else {
+        safeInfo = {
+          address: wallet.address,
+          threshold: 0,
+          nonce: 0,
+          owners: [],
+        }
       }
     }
 
     // Map owner addresses to signer names
-    const signerMap = new Map<string, { name: string | null; id: string | null; department: string | null }>()
+    const signerMap = new Map<
+      string,
+      { name: string | null; id: string | null; department: string | null; status: string; statusSince: Date }
+    >()
     
     for (const walletSigner of wallet.walletSigners) {
       const address = walletSigner.signerAddress.address
       signerMap.set(address.toLowerCase(), {
         name: walletSigner.signerAddress.signer.name,
         id: walletSigner.signerAddress.signer.id,
-        department: walletSigner.signerAddress.signer.department,
+        department: walletSigner.signerAddress.signer.department?.name ?? null,
+        status: walletSigner.signerAddress.signer.status,
+        statusSince: walletSigner.signerAddress.signer.statusSince,
       })
     }
 
     // Also check all signer addresses in DB to find matches
     const allSignerAddresses = await db.signerAddress.findMany({
       include: {
-        signer: true,
+        signer: { include: { department: true } },
       },
     })
 
@@ -122,12 +160,14 @@ export async function GET(
         signerMap.set(addrLower, {
           name: signerAddr.signer.name,
           id: signerAddr.signer.id,
-          department: signerAddr.signer.department,
+          department: signerAddr.signer.department?.name ?? null,
+          status: signerAddr.signer.status,
+          statusSince: signerAddr.signer.statusSince,
         })
       }
     }
 
-    const signers: Array<{ address: string; signerName: string | null; signerId: string | null; department: string | null }> = 
+    const signers: SignerWithAddress[] =
       safeInfo.owners.map((owner) => {
         const mapped = signerMap.get(owner.toLowerCase())
         return {
@@ -135,6 +175,8 @@ export async function GET(
           signerName: mapped?.name || null,
           signerId: mapped?.id || null,
           department: mapped?.department || null,
+          signerStatus: mapped?.status || null,
+          signerStatusSince: mapped?.statusSince || null,
         }
       })
 
@@ -143,7 +185,7 @@ export async function GET(
       address: wallet.address,
       name: wallet.name,
       chainId: wallet.chainId,
-      tag: wallet.tag,
+      tags: toTagSummaries(wallet.walletTags),
       threshold: safeInfo.threshold,
       nonce: safeInfo.nonce,
       totalSigners: safeInfo.owners.length,
@@ -152,9 +194,10 @@ export async function GET(
       updatedAt: wallet.updatedAt,
       // Include API error flag for UI to show fallback message
       _apiError: apiError || undefined,
+      _snapshotAt: snapshotAt || undefined,
     }
 
-    return NextResponse.json(walletWithDetails)
+    return withCacheAge(NextResponse.json(walletWithDetails))
   } catch (error) {
     console.error('Get wallet error:', error)
     return NextResponse.json(
@@ -169,23 +212,56 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('wallet:edit')
 
     const { id } = await params
     const body = await request.json()
-    const { name, chainId, tag } = updateWalletSchema.parse(body)
+    const { name, chainId, tags } = updateWalletSchema.parse(body)
 
-    const wallet = await db.wallet.update({
+    const existing = await db.wallet.findUnique({ where: { id }, include: walletTagsInclude })
+    if (!existing) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
+    // Moving a wallet to another chain is a structural change, not a rename
+    if (chainId !== undefined && chainId !== existing.chainId && !session.permissions.includes('wallet:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const unknownTags = tags !== undefined ? await findUnknownTagNames(tags) : []
+    if (unknownTags.length > 0 && !session.permissions.includes('tag:manage')) {
+      return NextResponse.json(
+        { error: `Unknown tag(s): ${unknownTags.join(', ')}. Only tag managers can add tags to the catalog.` },
+        { status: 400 }
+      )
+    }
+
+    // No-op unless the current values were never versioned (e.g. rows from the JSON import)
+    await recordVersion('wallet', toVersionedWallet(existing), null)
+
+    await db.wallet.update({
       where: { id },
       data: {
         ...(name !== undefined && { name: name || null }),
         ...(chainId !== undefined && { chainId }),
-        ...(tag !== undefined && { tag: tag || null }),
       },
     })
+    if (tags !== undefined) {
+      await setWalletTags(id, tags)
+    }
+    const wallet = await db.wallet.findUniqueOrThrow({ where: { id }, include: walletTagsInclude })
+
+    await recordAuditEvent(session, {
+      action: 'wallet.update',
+      entityType: 'wallet',
+      entityId: wallet.id,
+      before: serializeWalletTags(existing),
+      after: serializeWalletTags(wallet),
+    })
+    await recordVersion('wallet', toVersionedWallet(wallet), session.username)
+
+    // Chain may have changed - drop cached Safe API responses for this Safe
+    await invalidateSafeApiCache(wallet.address)
 
     // Sync to JSON file
     try {
@@ -195,7 +271,7 @@ export async function PUT(
       // Don't fail the request if JSON sync fails
     }
 
-    return NextResponse.json(wallet)
+    return NextResponse.json(serializeWalletTags(wallet))
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -206,6 +282,9 @@ export async function PUT(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Update wallet error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -219,17 +298,24 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('wallet:manage')
 
     const { id } = await params
 
-    await db.wallet.delete({
+    const wallet = await db.wallet.delete({
       where: { id },
+      include: walletTagsInclude,
+    })
+
+    await recordAuditEvent(session, {
+      action: 'wallet.delete',
+      entityType: 'wallet',
+      entityId: wallet.id,
+      before: serializeWalletTags(wallet),
     })
 
+    await invalidateSafeApiCache(wallet.address)
+
     // Sync to JSON file
     try {
       await syncWalletsToJson()
@@ -243,6 +329,9 @@ export async function DELETE(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Delete wallet error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
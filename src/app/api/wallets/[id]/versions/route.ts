@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { listVersions, findVersion, recordVersion } from '@/lib/versions'
+import { walletTagsInclude, serializeWalletTags, toVersionedWallet, setWalletTags, findUnknownTagNames } from '@/lib/tags'
+import { parseTags } from '@/lib/utils'
+import { syncWalletsToJson } from '@/lib/json-sync'
+import { invalidateSafeApiCache } from '@/lib/safe-cache'
+import { z } from 'zod'
+
+const restoreSchema = z.object({
+  versionId: z.string().min(1),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requirePermission('wallet:edit')
+
+    const { id } = await params
+    return NextResponse.json(await listVersions('wallet', id))
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Get wallet versions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Restore name, network and tags from an earlier version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requirePermission('wallet:edit')
+
+    const { id } = await params
+    const body = await request.json()
+    const { versionId } = restoreSchema.parse(body)
+
+    const existing = await db.wallet.findUnique({ where: { id }, include: walletTagsInclude })
+    const version = await findVersion('wallet', id, versionId)
+    if (!existing || !version) {
+      return NextResponse.json({ error: 'Wallet or version not found' }, { status: 404 })
+    }
+
+    const chainId = typeof version.data.chainId === 'number' ? version.data.chainId : existing.chainId
+    if (chainId !== existing.chainId) {
+      // Same rule as PUT: moving between chains needs wallet:manage
+      if (!session.permissions.includes('wallet:manage')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+      const conflict = await db.wallet.findUnique({
+        where: { address_chainId: { address: existing.address, chainId } },
+      })
+      if (conflict) {
+        return NextResponse.json(
+          { error: 'This Safe is already registered on the network of that version' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Tag renames and merges are applied to stored versions; a tag deleted since then is only recreated for tag managers
+    const tagNames = parseTags(typeof version.data.tag === 'string' ? version.data.tag : null)
+    const unknownTags = await findUnknownTagNames(tagNames)
+    if (unknownTags.length > 0 && !session.permissions.includes('tag:manage')) {
+      return NextResponse.json(
+        { error: `Unknown tag(s): ${unknownTags.join(', ')}. Only tag managers can add tags to the catalog.` },
+        { status: 400 }
+      )
+    }
+
+    await db.wallet.update({
+      where: { id },
+      data: {
+        name: typeof version.data.name === 'string' ? version.data.name : null,
+        chainId,
+      },
+    })
+    await setWalletTags(id, tagNames)
+    const wallet = await db.wallet.findUniqueOrThrow({ where: { id }, include: walletTagsInclude })
+
+    await recordAuditEvent(session, {
+      action: 'wallet.restore',
+      entityType: 'wallet',
+      entityId: wallet.id,
+      before: serializeWalletTags(existing),
+      after: { ...serializeWalletTags(wallet), restoredVersion: version.version },
+    })
+    await recordVersion('wallet', toVersionedWallet(wallet), session.username)
+
+    await invalidateSafeApiCache(wallet.address)
+
+    // Sync to JSON file
+    try {
+      await syncWalletsToJson()
+    } catch (error) {
+      console.error('Failed to sync wallets to JSON:', error)
+      // Don't fail the request if JSON sync fails
+    }
+
+    return NextResponse.json(serializeWalletTags(wallet))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    console.error('Restore wallet version error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
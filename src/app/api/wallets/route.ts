@@ -4,13 +4,16 @@ import { getSafeInfo } from '@/lib/safeApi'
 import { getChainById } from '@/lib/chains'
 import { syncWalletsToJson } from '@/lib/json-sync'
 import { z } from 'zod'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { recordVersion } from '@/lib/versions'
+import { walletTagsInclude, serializeWalletTags, toVersionedWallet, setWalletTags, findUnknownTagNames } from '@/lib/tags'
 
 const createWalletSchema = z.object({
   address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address format'),
   name: z.string().optional(),
   chainId: z.number().int().positive(),
-  tag: z.string().optional(),
+  tags: z.array(z.string()).optional(), // Tag names; unknown names are added to the catalog
 })
 
 export async function GET(request: NextRequest) {
@@ -19,6 +22,7 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
     const chainId = searchParams.get('chainId')
     const search = searchParams.get('search')
+    const tags = searchParams.getAll('tag').filter((tag) => tag.trim())
 
     const where: any = {}
     if (chainId) {
@@ -28,12 +32,19 @@ export async function GET(request: NextRequest) {
       where.OR = [
         { address: { contains: search, mode: 'insensitive' } },
         { name: { contains: search, mode: 'insensitive' } },
-        { tag: { contains: search, mode: 'insensitive' } },
+        { walletTags: { some: { tag: { name: { contains: search, mode: 'insensitive' } } } } },
       ]
     }
+    // ?tag=Treasury&tag=Ops returns wallets carrying every listed tag
+    if (tags.length > 0) {
+      where.AND = tags.map((tag) => ({
+        walletTags: { some: { tag: { name: { equals: tag.trim(), mode: 'insensitive' } } } },
+      }))
+    }
 
     const wallets = await db.wallet.findMany({
       where,
+      include: walletTagsInclude,
       orderBy: { createdAt: 'desc' },
     })
 
@@ -41,7 +52,7 @@ export async function GET(request: NextRequest) {
     // This avoids rate limiting on the dashboard page
     // Threshold and signers are fetched only on the wallet detail page
     return NextResponse.json(wallets.map(wallet => ({
-      ...wallet,
+      ...serializeWalletTags(wallet),
       threshold: 0, // Will be fetched on detail page
       totalSigners: 0, // Will be fetched on detail page
       signers: [], // Will be fetched on detail page
@@ -57,13 +68,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await requireAuth()
-    if (!session.isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    const session = await requirePermission('wallet:manage')
 
     const body = await request.json()
-    const { address, name, chainId, tag } = createWalletSchema.parse(body)
+    const { address, name, chainId, tags } = createWalletSchema.parse(body)
 
     // Normalize address to lowercase for comparison
     const normalizedAddress = address.toLowerCase()
@@ -86,6 +94,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const unknownTags = await findUnknownTagNames(tags || [])
+    if (unknownTags.length > 0 && !session.permissions.includes('tag:manage')) {
+      return NextResponse.json(
+        { error: `Unknown tag(s): ${unknownTags.join(', ')}. Only tag managers can add tags to the catalog.` },
+        { status: 400 }
+      )
+    }
+
     // Validate that the wallet exists on the specified chain via Safe API
     // This is required - we must verify the wallet exists before adding
     const apiKey = process.env.SAFE_API_KEY?.trim()
@@ -126,14 +142,26 @@ export async function POST(request: NextRequest) {
     }
 
     // All validations passed - create the wallet
-    const wallet = await db.wallet.create({
+    const created = await db.wallet.create({
       data: {
         address: normalizedAddress,
         name: name || null,
         chainId,
-        tag: tag || null,
       },
     })
+    await setWalletTags(created.id, tags || [])
+    const wallet = await db.wallet.findUniqueOrThrow({
+      where: { id: created.id },
+      include: walletTagsInclude,
+    })
+
+    await recordAuditEvent(session, {
+      action: 'wallet.create',
+      entityType: 'wallet',
+      entityId: wallet.id,
+      after: serializeWalletTags(wallet),
+    })
+    await recordVersion('wallet', toVersionedWallet(wallet), session.username)
 
     // Sync to JSON file
     try {
@@ -143,7 +171,7 @@ export async function POST(request: NextRequest) {
       // Don't fail the request if JSON sync fails
     }
 
-    return NextResponse.json(wallet, { status: 201 })
+    return NextResponse.json(serializeWalletTags(wallet), { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -154,6 +182,9 @@ export async function POST(request: NextRequest) {
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    if (error instanceof Error && error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     console.error('Create wallet error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import DepartmentSelect from '@/components/DepartmentSelect'
 
 interface AddUserModalProps {
   isOpen: boolean
@@ -11,7 +12,7 @@ interface AddUserModalProps {
 export default function AddUserModal({ isOpen, onClose, onSuccess }: AddUserModalProps) {
   const [address, setAddress] = useState('')
   const [name, setName] = useState('')
-  const [department, setDepartment] = useState('')
+  const [departmentId, setDepartmentId] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
 
@@ -45,7 +46,7 @@ export default function AddUserModal({ isOpen, onClose, onSuccess }: AddUserModa
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: name.trim(),
-          department: department.trim() || undefined,
+          departmentId: departmentId || undefined,
           addresses: [address.trim().toLowerCase()],
         }),
       })
@@ -60,7 +61,7 @@ export default function AddUserModal({ isOpen, onClose, onSuccess }: AddUserModa
       // Success
       setAddress('')
       setName('')
-      setDepartment('')
+      setDepartmentId('')
       onSuccess()
       onClose()
     } catch (err) {
@@ -120,12 +121,10 @@ export default function AddUserModal({ isOpen, onClose, onSuccess }: AddUserModa
               <label htmlFor="department" className="block text-sm font-medium text-gray-700">
                 Department
               </label>
-              <input
+              <DepartmentSelect
                 id="department"
-                type="text"
-                value={department}
-                onChange={(e) => setDepartment(e.target.value)}
-                placeholder="Engineering, Operations, etc."
+                value={departmentId}
+                onChange={setDepartmentId}
                 className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
               />
             </div>
@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import { SUPPORTED_CHAINS } from '@/lib/chains'
+import { parseTags } from '@/lib/utils'
 
 interface AddWalletModalProps {
   isOpen: boolean
@@ -43,7 +44,7 @@ export default function AddWalletModal({ isOpen, onClose, onSuccess }: AddWallet
           address: address.trim().toLowerCase(),
           chainId,
           name: name.trim() || undefined,
-          tag: tag.trim() || undefined,
+          tags: parseTags(tag),
         }),
       })
 
@@ -145,7 +146,7 @@ export default function AddWalletModal({ isOpen, onClose, onSuccess }: AddWallet
                 className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
               />
               <p className="mt-1 text-xs text-black">
-                Separate multiple tags with commas
+                Separate multiple tags with commas. Tags not in the catalog can only be added by tag managers
               </p>
             </div>
 
@@ -0,0 +1,43 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { CUSTODY_LABELS, isCustodyKind } from '@/lib/custody'
+import type { AddressTypeSummary } from '@/types'
+
+interface AddressTypeSelectProps {
+  id?: string
+  value: string // Address type id, '' for none
+  onChange: (addressTypeId: string) => void
+  className?: string
+}
+
+export default function AddressTypeSelect({ id, value, onChange, className = '' }: AddressTypeSelectProps) {
+  const [addressTypes, setAddressTypes] = useState<AddressTypeSummary[]>([])
+
+  useEffect(() => {
+    const loadAddressTypes = async () => {
+      try {
+        const response = await fetch('/api/address-types')
+        if (response.ok) {
+          setAddressTypes(await response.json())
+        }
+      } catch (error) {
+        console.error('Failed to load address types:', error)
+      }
+    }
+
+    loadAddressTypes()
+  }, [])
+
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      <option value="">Not classified</option>
+      {addressTypes.map((addressType) => (
+        <option key={addressType.id} value={addressType.id}>
+          {addressType.name}
+          {isCustodyKind(addressType.custody) && ` (${CUSTODY_LABELS[addressType.custody]})`}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,56 @@
+import { getChainName } from '@/lib/chains'
+import type { ChainLookupStatus } from '@/types'
+
+interface ChainCoverageStripProps {
+  chains: Record<number, ChainLookupStatus>
+}
+
+const STATUS_STYLES: Record<ChainLookupStatus['status'], string> = {
+  ok: 'border-green-200 bg-green-100 text-green-800',
+  empty: 'border-gray-200 bg-gray-100 text-gray-700',
+  error: 'border-red-200 bg-red-100 text-red-800',
+  skipped: 'border-dashed border-gray-300 bg-white text-gray-500',
+}
+
+const STATUS_LABELS: Record<ChainLookupStatus['status'], string> = {
+  ok: 'Safes found',
+  empty: 'No Safes',
+  error: 'Lookup failed',
+  skipped: 'Not searched',
+}
+
+export default function ChainCoverageStrip({ chains }: ChainCoverageStripProps) {
+  const entries = Object.entries(chains)
+    .map(([chainId, status]) => ({ chainId: parseInt(chainId, 10), ...status }))
+    .sort((a, b) => getChainName(a.chainId).localeCompare(getChainName(b.chainId)))
+
+  if (entries.length === 0) return null
+
+  const failed = entries.filter((entry) => entry.status === 'error')
+  const searched = entries.filter((entry) => entry.status !== 'skipped').length
+
+  return (
+    <div className="mb-4">
+      <p className="mb-2 text-sm text-black">
+        Searched {searched} chain(s)
+        {failed.length > 0 && (
+          <span className="font-semibold text-red-700">
+            {' '}
+            · {failed.length} failed — results are incomplete
+          </span>
+        )}
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {entries.map((entry) => (
+          <span
+            key={entry.chainId}
+            className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-medium ${STATUS_STYLES[entry.status]}`}
+            title={`${STATUS_LABELS[entry.status]}${entry.message ? `: ${entry.message}` : ''}`}
+          >
+            {getChainName(entry.chainId)}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
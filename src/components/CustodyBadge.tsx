@@ -0,0 +1,17 @@
+'use client'
+
+import { CUSTODY_CLASSES, CUSTODY_LABELS, isCustodyKind } from '@/lib/custody'
+
+interface CustodyBadgeProps {
+  custody: string
+  label?: string // Defaults to the custody kind, e.g. an address type name
+}
+
+export default function CustodyBadge({ custody, label }: CustodyBadgeProps) {
+  const key = isCustodyKind(custody) ? custody : 'other'
+  return (
+    <span className={`rounded px-2 py-1 text-xs font-medium ${CUSTODY_CLASSES[key]}`} title={CUSTODY_LABELS[key]}>
+      {label ?? CUSTODY_LABELS[key]}
+    </span>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { DepartmentSummary } from '@/types'
+
+interface DepartmentSelectProps {
+  id: string
+  value: string // Department id, '' for none
+  onChange: (departmentId: string) => void
+  className?: string
+}
+
+export default function DepartmentSelect({ id, value, onChange, className = '' }: DepartmentSelectProps) {
+  const [departments, setDepartments] = useState<DepartmentSummary[]>([])
+
+  useEffect(() => {
+    const loadDepartments = async () => {
+      try {
+        const response = await fetch('/api/departments')
+        if (response.ok) {
+          setDepartments(await response.json())
+        }
+      } catch (error) {
+        console.error('Failed to load departments:', error)
+      }
+    }
+
+    loadDepartments()
+  }, [])
+
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      <option value="">No department</option>
+      {departments.map((department) => (
+        <option key={department.id} value={department.id}>
+          {department.name}
+        </option>
+      ))}
+    </select>
+  )
+}
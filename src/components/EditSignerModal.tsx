@@ -1,12 +1,46 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect } from 'react'
+import ReplaceAddressModal from '@/components/ReplaceAddressModal'
+import VersionHistoryDrawer from '@/components/VersionHistoryDrawer'
+import DepartmentSelect from '@/components/DepartmentSelect'
+import AddressTypeSelect from '@/components/AddressTypeSelect'
+import { SIGNER_STATUSES, SIGNER_STATUS_LABELS } from '@/lib/signer-status'
 
 interface Address {
   id: string
   address: string
   name: string | null
   type: string | null
+  addressTypeId?: string | null
+  serialRef?: string | null
+  storageLocation?: string | null
+  acquiredAt?: Date | string | null
+}
+
+// Form state for one address; custody fields are edited as strings
+type AddressForm = {
+  id: string
+  address: string
+  name: string
+  type: string
+  addressTypeId: string
+  serialRef: string
+  storageLocation: string
+  acquiredAt: string // YYYY-MM-DD
+}
+
+function toAddressForm(addr: Address): AddressForm {
+  return {
+    id: addr.id,
+    address: addr.address,
+    name: addr.name || '',
+    type: addr.type || '',
+    addressTypeId: addr.addressTypeId || '',
+    serialRef: addr.serialRef || '',
+    storageLocation: addr.storageLocation || '',
+    acquiredAt: toDateInput(addr.acquiredAt ?? null),
+  }
 }
 
 interface EditSignerModalProps {
@@ -16,41 +50,57 @@ interface EditSignerModalProps {
   signer: {
     id: string
     name: string
-    department: string | null
+    departmentId: string | null
+    status: string
+    statusSince: Date | string
+    statusUntil: Date | string | null
     addresses?: Address[]
   }
 }
 
+function toDateInput(value: Date | string | null): string {
+  return value ? new Date(value).toISOString().slice(0, 10) : ''
+}
+
 export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }: EditSignerModalProps) {
   const [name, setName] = useState('')
-  const [department, setDepartment] = useState('')
-  const [addresses, setAddresses] = useState<Array<{ id: string; address: string; name: string; type: string }>>([])
+  const [departmentId, setDepartmentId] = useState('')
+  const [status, setStatus] = useState('active')
+  const [statusSince, setStatusSince] = useState('') // YYYY-MM-DD
+  const [statusUntil, setStatusUntil] = useState('')
+  const [addresses, setAddresses] = useState<AddressForm[]>([])
   const [newAddress, setNewAddress] = useState('')
   const [newAddressType, setNewAddressType] = useState('')
+  const [newAddressTypeId, setNewAddressTypeId] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
   const [removingAddressId, setRemovingAddressId] = useState<string | null>(null)
+  const [replacingAddress, setReplacingAddress] = useState<{
+    id: string
+    address: string
+    type: string
+    addressTypeId: string
+  } | null>(null)
+  // null = closed; no addressId = the signer itself
+  const [historyTarget, setHistoryTarget] = useState<{ addressId?: string; address?: string } | null>(null)
 
   useEffect(() => {
     if (isOpen && signer) {
       setName(signer.name || '')
-      setDepartment(signer.department || '')
+      setDepartmentId(signer.departmentId || '')
+      setStatus(signer.status)
+      setStatusSince(toDateInput(signer.statusSince))
+      setStatusUntil(toDateInput(signer.statusUntil))
       // Initialize addresses from signer prop
       if (signer.addresses && signer.addresses.length > 0) {
-        setAddresses(
-          signer.addresses.map((addr) => ({
-            id: addr.id,
-            address: addr.address,
-            name: addr.name || '',
-            type: addr.type || '',
-          }))
-        )
+        setAddresses(signer.addresses.map(toAddressForm))
       } else {
         setAddresses([])
       }
       // Reset new address form
       setNewAddress('')
       setNewAddressType('')
+      setNewAddressTypeId('')
       setError('')
     }
   }, [isOpen, signer])
@@ -78,7 +128,7 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
     return maxNumber + 1
   }
 
-  const handleAddressChange = (index: number, field: 'name' | 'type', value: string) => {
+  const handleAddressChange = (index: number, field: Exclude<keyof AddressForm, 'id' | 'address'>, value: string) => {
     const updated = [...addresses]
     updated[index] = { ...updated[index], [field]: value }
     setAddresses(updated)
@@ -112,6 +162,23 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
     }
   }
 
+  const handleRestored = (restored: Record<string, unknown>) => {
+    if (historyTarget?.addressId) {
+      setAddresses(addresses.map((addr) => (addr.id === restored.id ? toAddressForm(restored as unknown as Address) : addr)))
+    } else {
+      setName((restored.name as string) || '')
+      setDepartmentId((restored.departmentId as string | null) || '')
+    }
+    onSuccess()
+  }
+
+  const handleReplaceSuccess = (replacement: Address) => {
+    // The old address is kept; the replacement is added if it wasn't already on this signer
+    if (!addresses.some((addr) => addr.id === replacement.id)) {
+      setAddresses([...addresses, toAddressForm(replacement)])
+    }
+  }
+
   const handleAddAddress = async () => {
     if (!newAddress.trim()) {
       setError('Address is required')
@@ -148,6 +215,7 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
         body: JSON.stringify({
           address: normalizedNewAddress,
           type: finalType || undefined,
+          addressTypeId: newAddressTypeId || undefined,
         }),
       })
 
@@ -159,19 +227,12 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
       }
 
       // Add to local state
-      setAddresses([
-        ...addresses,
-        {
-          id: data.id,
-          address: data.address,
-          name: data.name || '',
-          type: data.type || finalType,
-        },
-      ])
+      setAddresses([...addresses, toAddressForm({ ...data, type: data.type || finalType })])
 
       // Reset form
       setNewAddress('')
       setNewAddressType('')
+      setNewAddressTypeId('')
     } catch (err) {
       setError('An error occurred while adding the address')
     } finally {
@@ -188,16 +249,26 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
       return
     }
 
+    if (status === 'on_leave' && statusUntil && statusUntil < statusSince) {
+      setError('Return date must be after the leave starts')
+      return
+    }
+
     setLoading(true)
 
     try {
+      const statusChanged = status !== signer.status || statusSince !== toDateInput(signer.statusSince)
+
       // Update signer info
       const signerResponse = await fetch(`/api/signers/${signer.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: name.trim(),
-          department: department.trim() || undefined,
+          departmentId: departmentId || null,
+          // Only sent when edited so saving other fields doesn't reset the effective date
+          ...(statusChanged && { status, statusSince: statusSince || undefined }),
+          ...(status === 'on_leave' && { statusUntil: statusUntil || null }),
         }),
       })
 
@@ -216,6 +287,10 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
           body: JSON.stringify({
             name: addr.name.trim() || undefined,
             type: addr.type.trim() || undefined,
+            addressTypeId: addr.addressTypeId || null,
+            serialRef: addr.serialRef,
+            storageLocation: addr.storageLocation,
+            acquiredAt: addr.acquiredAt || null,
           }),
         })
       )
@@ -241,6 +316,38 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 overflow-y-auto">
+      <ReplaceAddressModal
+        isOpen={!!replacingAddress}
+        onClose={() => setReplacingAddress(null)}
+        onSuccess={handleReplaceSuccess}
+        signerId={signer.id}
+        address={replacingAddress}
+      />
+
+      <VersionHistoryDrawer
+        isOpen={!!historyTarget}
+        onClose={() => setHistoryTarget(null)}
+        onRestored={handleRestored}
+        title={historyTarget?.address || signer.name}
+        endpoint={
+          historyTarget?.addressId
+            ? `/api/signers/${signer.id}/addresses/${historyTarget.addressId}/versions`
+            : `/api/signers/${signer.id}/versions`
+        }
+        fieldLabels={
+          historyTarget?.addressId
+            ? {
+                type: 'Label',
+                name: 'Name',
+                addressType: 'Address type',
+                serialRef: 'Serial',
+                storageLocation: 'Storage',
+                acquiredAt: 'Acquired',
+              }
+            : { name: 'Name', department: 'Department' }
+        }
+      />
+
       <div className="w-full max-w-4xl rounded-lg bg-white p-6 shadow-xl my-8">
         <div className="mb-6">
           <h2 className="text-2xl font-bold text-black">Edit Signer</h2>
@@ -253,7 +360,16 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
           <div className="space-y-6">
             {/* Section 1: Signer Information */}
             <div className="border-b border-gray-200 pb-6">
-              <h3 className="text-lg font-semibold text-black mb-4">🔹 Signer Information</h3>
+              <div className="mb-4 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-black">🔹 Signer Information</h3>
+                <button
+                  type="button"
+                  onClick={() => setHistoryTarget({})}
+                  className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  History
+                </button>
+              </div>
               <div className="space-y-4">
                 <div>
                   <label htmlFor="name" className="block text-sm font-medium text-black">
@@ -272,17 +388,75 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
 
                 <div>
                   <label htmlFor="department" className="block text-sm font-medium text-black">
-                    Role / Department
+                    Department
                   </label>
-                  <input
+                  <DepartmentSelect
                     id="department"
-                    type="text"
-                    value={department}
-                    onChange={(e) => setDepartment(e.target.value)}
-                    placeholder="Co-Founder, Engineering, Operations, etc."
+                    value={departmentId}
+                    onChange={setDepartmentId}
                     className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
                   />
                 </div>
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                  <div>
+                    <label htmlFor="status" className="block text-sm font-medium text-black">
+                      Status
+                    </label>
+                    <select
+                      id="status"
+                      value={status}
+                      onChange={(e) => {
+                        setStatus(e.target.value)
+                        // A new status takes effect today unless a date is picked
+                        setStatusSince(
+                          e.target.value === signer.status ? toDateInput(signer.statusSince) : toDateInput(new Date())
+                        )
+                      }}
+                      className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    >
+                      {SIGNER_STATUSES.map((value) => (
+                        <option key={value} value={value}>
+                          {SIGNER_STATUS_LABELS[value]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="statusSince" className="block text-sm font-medium text-black">
+                      Effective from
+                    </label>
+                    <input
+                      id="statusSince"
+                      type="date"
+                      value={statusSince}
+                      max={toDateInput(new Date())}
+                      onChange={(e) => setStatusSince(e.target.value)}
+                      className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                  </div>
+                  {status === 'on_leave' && (
+                    <div>
+                      <label htmlFor="statusUntil" className="block text-sm font-medium text-black">
+                        Expected back <span className="text-xs text-gray-500">(optional)</span>
+                      </label>
+                      <input
+                        id="statusUntil"
+                        type="date"
+                        value={statusUntil}
+                        min={statusSince || undefined}
+                        onChange={(e) => setStatusUntil(e.target.value)}
+                        className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                      />
+                    </div>
+                  )}
+                </div>
+                {status === 'offboarded' && signer.status !== 'offboarded' && (
+                  <p className="text-sm text-black">
+                    Offboarding removes any Sign-In with Ethereum account linked to this signer. Their addresses stay
+                    on record so Safes that still list them as owners are flagged.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -300,7 +474,10 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
                           Wallet Address
                         </th>
                         <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
-                          Type
+                          Label
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                          Address Type
                         </th>
                         <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
                           Actions
@@ -309,31 +486,94 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                       {addresses.map((addr, index) => (
-                        <tr key={addr.id} className="hover:bg-gray-50">
-                          <td className="px-4 py-3 whitespace-nowrap">
-                            <p className="font-mono text-sm text-black">{addr.address}</p>
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap">
-                            <input
-                              type="text"
-                              value={addr.type}
-                              onChange={(e) => handleAddressChange(index, 'type', e.target.value)}
-                              placeholder="Account 1, Ledger, Hot Wallet, etc."
-                              className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
-                            />
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap">
-                            <button
-                              type="button"
-                              onClick={() => handleRemoveAddress(addr.id)}
-                              disabled={removingAddressId === addr.id}
-                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
-                              title="Remove address"
-                            >
-                              {removingAddressId === addr.id ? 'Removing...' : '❌ Remove'}
-                            </button>
-                          </td>
-                        </tr>
+                        <Fragment key={addr.id}>
+                          <tr className="hover:bg-gray-50">
+                            <td className="px-4 py-3 whitespace-nowrap">
+                              <p className="font-mono text-sm text-black">{addr.address}</p>
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap">
+                              <input
+                                type="text"
+                                value={addr.type}
+                                onChange={(e) => handleAddressChange(index, 'type', e.target.value)}
+                                placeholder="Account 1, Ledger, Hot Wallet, etc."
+                                className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap">
+                              <AddressTypeSelect
+                                value={addr.addressTypeId}
+                                onChange={(addressTypeId) => handleAddressChange(index, 'addressTypeId', addressTypeId)}
+                                className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                              />
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap">
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setReplacingAddress({
+                                    id: addr.id,
+                                    address: addr.address,
+                                    type: addr.type,
+                                    addressTypeId: addr.addressTypeId,
+                                  })
+                                }
+                                className="mr-3 text-indigo-600 hover:text-indigo-800"
+                                title="Replace this address on every Safe with a new key (swapOwner)"
+                              >
+                                🔁 Replace
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setHistoryTarget({ addressId: addr.id, address: addr.address })}
+                                className="mr-3 text-indigo-600 hover:text-indigo-800"
+                                title="Earlier names, types and custody details of this address"
+                              >
+                                🕘 History
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveAddress(addr.id)}
+                                disabled={removingAddressId === addr.id}
+                                className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                                title="Remove address"
+                              >
+                                {removingAddressId === addr.id ? 'Removing...' : '❌ Remove'}
+                              </button>
+                            </td>
+                          </tr>
+                          {/* Custody details */}
+                          <tr>
+                            <td colSpan={4} className="px-4 pb-3">
+                              <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                                <input
+                                  type="text"
+                                  value={addr.serialRef}
+                                  onChange={(e) => handleAddressChange(index, 'serialRef', e.target.value)}
+                                  placeholder="Device serial / asset tag"
+                                  aria-label="Device serial reference"
+                                  className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                />
+                                <input
+                                  type="text"
+                                  value={addr.storageLocation}
+                                  onChange={(e) => handleAddressChange(index, 'storageLocation', e.target.value)}
+                                  placeholder="Storage location"
+                                  aria-label="Storage location"
+                                  className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                />
+                                <input
+                                  type="date"
+                                  value={addr.acquiredAt}
+                                  onChange={(e) => handleAddressChange(index, 'acquiredAt', e.target.value)}
+                                  title="Acquired"
+                                  aria-label="Acquired date"
+                                  className="block w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                                />
+                              </div>
+                            </td>
+                          </tr>
+                        </Fragment>
                       ))}
                     </tbody>
                   </table>
@@ -347,7 +587,7 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
               {/* Add New Address Form */}
               <div className="border border-gray-200 rounded-md p-4 bg-gray-50">
                 <h4 className="text-sm font-semibold text-black mb-3">➕ Add New Associated Address</h4>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
                   <div className="md:col-span-2">
                     <label htmlFor="newAddress" className="block text-xs font-medium text-black mb-1">
                       Wallet Address <span className="text-red-500">*</span>
@@ -363,7 +603,7 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
                   </div>
                   <div>
                     <label htmlFor="newAddressType" className="block text-xs font-medium text-black mb-1">
-                      Type / Label <span className="text-xs text-gray-500">(optional)</span>
+                      Label <span className="text-xs text-gray-500">(optional)</span>
                     </label>
                     <input
                       id="newAddressType"
@@ -377,6 +617,17 @@ export default function EditSignerModal({ isOpen, onClose, onSuccess, signer }:
                       Leave empty to auto-assign: Account {getNextAccountNumber()}
                     </p>
                   </div>
+                  <div>
+                    <label htmlFor="newAddressTypeId" className="block text-xs font-medium text-black mb-1">
+                      Address Type <span className="text-xs text-gray-500">(optional)</span>
+                    </label>
+                    <AddressTypeSelect
+                      id="newAddressTypeId"
+                      value={newAddressTypeId}
+                      onChange={setNewAddressTypeId}
+                      className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                    />
+                  </div>
                 </div>
                 <div className="mt-3">
                   <button
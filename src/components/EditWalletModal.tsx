@@ -1,7 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { SUPPORTED_CHAINS } from '@/lib/chains'
+import { SUPPORTED_CHAINS, getChainById } from '@/lib/chains'
+import VersionHistoryDrawer from '@/components/VersionHistoryDrawer'
+import { parseTags } from '@/lib/utils'
+import type { TagSummary } from '@/types'
 
 interface EditWalletModalProps {
   isOpen: boolean
@@ -12,27 +15,36 @@ interface EditWalletModalProps {
     address: string
     name: string | null
     chainId: number
-    tag: string | null
+    tags: TagSummary[]
   }
+  canChangeChain?: boolean // Editors can rename and tag but not move wallets between chains
 }
 
-export default function EditWalletModal({ isOpen, onClose, onSuccess, wallet }: EditWalletModalProps) {
+export default function EditWalletModal({ isOpen, onClose, onSuccess, wallet, canChangeChain = true }: EditWalletModalProps) {
   const [name, setName] = useState('')
   const [chainId, setChainId] = useState<number>(1)
   const [tag, setTag] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
 
   useEffect(() => {
     if (isOpen && wallet) {
       setName(wallet.name || '')
       setChainId(wallet.chainId)
-      setTag(wallet.tag || '')
+      setTag(wallet.tags.map((t) => t.name).join(', '))
     }
   }, [isOpen, wallet])
 
   if (!isOpen) return null
 
+  const handleRestored = (restored: Record<string, unknown>) => {
+    setName((restored.name as string | null) || '')
+    setChainId(restored.chainId as number)
+    setTag(((restored.tags as TagSummary[] | undefined) || []).map((t) => t.name).join(', '))
+    onSuccess()
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -45,7 +57,7 @@ export default function EditWalletModal({ isOpen, onClose, onSuccess, wallet }:
         body: JSON.stringify({
           name: name.trim() || undefined,
           chainId,
-          tag: tag.trim() || undefined,
+          tags: parseTags(tag),
         }),
       })
 
@@ -68,9 +80,32 @@ export default function EditWalletModal({ isOpen, onClose, onSuccess, wallet }:
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <VersionHistoryDrawer
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        onRestored={handleRestored}
+        title={wallet.name || wallet.address}
+        endpoint={`/api/wallets/${wallet.id}/versions`}
+        fieldLabels={{ name: 'Name', chainId: 'Network', tag: 'Tags' }}
+        formatValue={(field, value) =>
+          field === 'chainId' && typeof value === 'number'
+            ? getChainById(value)?.name || `Chain ${value}`
+            : value === null || value === '' ? '—' : String(value)
+        }
+      />
+
       <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
         <div className="mb-4">
-          <h2 className="text-2xl font-bold text-black">Edit Wallet</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-black">Edit Wallet</h2>
+            <button
+              type="button"
+              onClick={() => setShowHistory(true)}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              History
+            </button>
+          </div>
           <p className="mt-2 text-sm text-black">
             Update wallet metadata. Address cannot be changed.
           </p>
@@ -101,7 +136,8 @@ export default function EditWalletModal({ isOpen, onClose, onSuccess, wallet }:
                 id="chainId"
                 value={chainId}
                 onChange={(e) => setChainId(parseInt(e.target.value, 10))}
-                className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                disabled={!canChangeChain}
+                className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 disabled:bg-gray-100"
               >
                 {SUPPORTED_CHAINS.map((chain) => (
                   <option key={chain.id} value={chain.id}>
@@ -124,7 +160,7 @@ export default function EditWalletModal({ isOpen, onClose, onSuccess, wallet }:
                 className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
               />
               <p className="mt-1 text-xs text-black">
-                Separate multiple tags with commas
+                Separate multiple tags with commas. Tags not in the catalog can only be added by tag managers
               </p>
             </div>
 
@@ -15,6 +15,8 @@ export default function LoginModal({ isOpen, onClose, onSuccess, title, message
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
+  const [totpRequired, setTotpRequired] = useState(false)
+  const [totpCode, setTotpCode] = useState('')
 
   if (!isOpen) return null
 
@@ -27,19 +29,29 @@ export default function LoginModal({ isOpen, onClose, onSuccess, title, message
       const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify({ username, password, ...(totpRequired && { totpCode: totpCode.trim() }) }),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        setError(data.error || 'Login failed')
+        if (data.totpRequired) {
+          setError(totpRequired ? data.error || 'Invalid two-factor code' : '')
+          setTotpRequired(true)
+        } else if (data.totpEnrollmentRequired) {
+          // Enrolment shows a QR code and recovery codes, which only the login page has room for
+          setError('Admin accounts must set up two-factor authentication. Sign in from the login page to set it up.')
+        } else {
+          setError(data.error || 'Login failed')
+        }
         return
       }
 
       // Success
       setUsername('')
       setPassword('')
+      setTotpCode('')
+      setTotpRequired(false)
       onSuccess()
       onClose()
     } catch (err) {
@@ -92,6 +104,24 @@ export default function LoginModal({ isOpen, onClose, onSuccess, title, message
               />
             </div>
 
+            {totpRequired && (
+              <div>
+                <label htmlFor="totpCode" className="block text-sm font-medium text-gray-700">
+                  Two-factor code
+                </label>
+                <input
+                  id="totpCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value)}
+                  className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                />
+              </div>
+            )}
+
             {error && (
               <div className="rounded-md bg-red-50 p-3">
                 <p className="text-sm text-red-800">{error}</p>
@@ -28,6 +28,46 @@ export default function Navigation() {
       >
         Signers
       </Link>
+      <Link
+        href="/departments"
+        className={`inline-flex items-center border-b-2 px-1 pt-1 text-sm font-medium ${
+          pathname?.startsWith('/departments')
+            ? 'border-indigo-500 text-black'
+            : 'border-transparent text-black hover:border-gray-300 hover:text-gray-800'
+        }`}
+      >
+        Departments
+      </Link>
+      <Link
+        href="/address-types"
+        className={`inline-flex items-center border-b-2 px-1 pt-1 text-sm font-medium ${
+          pathname?.startsWith('/address-types')
+            ? 'border-indigo-500 text-black'
+            : 'border-transparent text-black hover:border-gray-300 hover:text-gray-800'
+        }`}
+      >
+        Address Types
+      </Link>
+      <Link
+        href="/drift"
+        className={`inline-flex items-center border-b-2 px-1 pt-1 text-sm font-medium ${
+          pathname?.startsWith('/drift')
+            ? 'border-indigo-500 text-black'
+            : 'border-transparent text-black hover:border-gray-300 hover:text-gray-800'
+        }`}
+      >
+        Ownership Drift
+      </Link>
+      <Link
+        href="/participation"
+        className={`inline-flex items-center border-b-2 px-1 pt-1 text-sm font-medium ${
+          pathname?.startsWith('/participation')
+            ? 'border-indigo-500 text-black'
+            : 'border-transparent text-black hover:border-gray-300 hover:text-gray-800'
+        }`}
+      >
+        Participation
+      </Link>
     </div>
   )
 }
@@ -0,0 +1,179 @@
+'use client'
+
+import Link from 'next/link'
+import ChainBadge from '@/components/ChainBadge'
+import AddressDisplay from '@/components/AddressDisplay'
+import { getChainName } from '@/lib/chains'
+import { downloadJson, getExplorerUrl } from '@/lib/utils'
+import type { OwnerChangePlan, OwnerChangeSafePlan } from '@/types'
+
+interface OwnerChangePlanViewProps {
+  plan: OwnerChangePlan
+  filePrefix: string // e.g. "offboard-alice"
+}
+
+export default function OwnerChangePlanView({ plan, filePrefix }: OwnerChangePlanViewProps) {
+  const downloadSafe = (safe: OwnerChangeSafePlan) => {
+    if (!safe.batch) return
+    downloadJson(`${filePrefix}-${safe.chainId}-${safe.address}.json`, safe.batch)
+  }
+
+  const downloadChain = (chainId: number, safes: OwnerChangeSafePlan[]) => {
+    const batches = safes.filter((safe) => safe.batch).map((safe) => safe.batch)
+    downloadJson(`${filePrefix}-${chainId}.json`, batches)
+  }
+
+  const failedChainsWarning = plan.failedChains.length > 0 && (
+    <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+      <div className="font-semibold">Some chains could not be searched — this plan may be incomplete</div>
+      <ul className="mt-1 list-disc pl-5">
+        {plan.failedChains.map((failure) => (
+          <li key={`${failure.address}-${failure.chainId}`}>
+            {getChainName(failure.chainId)} for <span className="font-mono">{failure.address}</span>: {failure.error}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+
+  if (plan.chains.length === 0) {
+    return (
+      <div className="space-y-6">
+        {failedChainsWarning}
+        <p className="text-black">
+          None of this signer&apos;s addresses is an owner of a Safe on any supported chain.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {failedChainsWarning}
+      <p className="text-sm text-black">
+        Each Safe must execute its own batch: import it in the Safe{'{'}Wallet{'}'} Transaction Builder
+        while connected to that Safe. Chain downloads bundle every Safe&apos;s batch on that chain.
+        Batches are built from the owners at the nonce shown; if a Safe has executed anything since,
+        reload this plan before using its batch.
+      </p>
+
+      {plan.chains.map(({ chainId, safes }) => (
+        <div key={chainId} className="rounded-lg bg-white p-6 shadow">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-black">{getChainName(chainId)}</h2>
+            <button
+              onClick={() => downloadChain(chainId, safes)}
+              disabled={!safes.some((safe) => safe.batch)}
+              className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Download chain batches
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                    Safe
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                    Threshold
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                    Calls
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+                    Export
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {safes.map((safe) => {
+                  const explorerUrl = getExplorerUrl(safe.address, safe.chainId)
+                  return (
+                    <tr key={safe.address} className="align-top hover:bg-gray-50">
+                      <td className="px-4 py-4">
+                        {safe.walletId ? (
+                          <Link
+                            href={`/wallets/${safe.walletId}`}
+                            className="font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            {safe.name || safe.address.slice(0, 10) + '...'}
+                          </Link>
+                        ) : (
+                          <span className="text-sm text-black">Not tracked in DB</span>
+                        )}
+                        <div className="mt-1 flex items-center gap-2">
+                          <AddressDisplay address={safe.address} linkToSigner={false} />
+                          {explorerUrl && (
+                            <a
+                              href={explorerUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              Explorer
+                            </a>
+                          )}
+                        </div>
+                        <div className="mt-1">
+                          <ChainBadge chainId={safe.chainId} />
+                        </div>
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4 text-sm text-black">
+                        {safe.threshold} / {safe.owners.length}
+                        {!safe.blockedReason && (
+                          <>
+                            {' → '}
+                            <span className={safe.newThreshold < safe.threshold ? 'font-semibold text-red-700' : ''}>
+                              {safe.newThreshold} / {safe.owners.length + ownerCountDelta(safe)}
+                            </span>
+                          </>
+                        )}
+                        <div className="mt-1 text-xs text-black">Nonce {safe.nonce}</div>
+                      </td>
+                      <td className="px-4 py-4 text-sm text-black">
+                        {safe.blockedReason ? (
+                          <span className="text-red-700">{safe.blockedReason}</span>
+                        ) : (
+                          <ol className="list-decimal space-y-1 pl-4">
+                            {safe.steps.map((step, index) => (
+                              <li key={index} className="font-mono text-xs">
+                                {step.method}(
+                                {Object.entries(step.args)
+                                  .map(([name, value]) => `${name}: ${value}`)
+                                  .join(', ')}
+                                )
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-4">
+                        <button
+                          onClick={() => downloadSafe(safe)}
+                          disabled={!safe.batch}
+                          className="rounded-md bg-gray-100 px-3 py-1 text-xs font-medium text-black hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          Download batch
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Net change in owner count after all steps (removeOwner: -1, swapOwner: 0)
+ */
+function ownerCountDelta(safe: OwnerChangeSafePlan): number {
+  return -safe.steps.filter((step) => step.method === 'removeOwner').length
+}
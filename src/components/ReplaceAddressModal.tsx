@@ -0,0 +1,226 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import OwnerChangePlanView from '@/components/OwnerChangePlanView'
+import AddressTypeSelect from '@/components/AddressTypeSelect'
+import { getChainName } from '@/lib/chains'
+import type { OwnerChangePlan, SkippedLinkMove } from '@/types'
+
+interface ReplaceAddressModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: (newAddress: {
+    id: string
+    address: string
+    name: string | null
+    type: string | null
+    addressTypeId: string | null
+  }) => void
+  signerId: string
+  address: {
+    id: string
+    address: string
+    type: string
+    addressTypeId: string // '' when unclassified
+  } | null
+}
+
+export default function ReplaceAddressModal({ isOpen, onClose, onSuccess, signerId, address }: ReplaceAddressModalProps) {
+  const [newAddress, setNewAddress] = useState('')
+  const [newAddressType, setNewAddressType] = useState('')
+  const [newAddressTypeId, setNewAddressTypeId] = useState('')
+  const [plan, setPlan] = useState<OwnerChangePlan | null>(null)
+  const [skipped, setSkipped] = useState<SkippedLinkMove[]>([])
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setNewAddress('')
+      setNewAddressType('')
+      // A rotated key usually keeps the custody of the one it replaces
+      setNewAddressTypeId(address?.addressTypeId || '')
+      setPlan(null)
+      setSkipped([])
+      setError('')
+    }
+  }, [isOpen, address])
+
+  if (!isOpen || !address) return null
+
+  const handlePlan = async () => {
+    setError('')
+    setPlan(null)
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(newAddress.trim())) {
+      setError('Invalid address format. Must be a valid Ethereum address (0x followed by 40 hex characters)')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ newAddress: newAddress.trim() })
+      const response = await fetch(`/api/signers/${signerId}/addresses/${address.id}/replace?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to plan address replacement')
+        return
+      }
+      setPlan(data)
+    } catch {
+      setError('An error occurred while planning the replacement')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!confirm('Only confirm after the swapOwner transactions have been executed. Move the wallet links of every Safe where the swap is on-chain to the new address?')) {
+      return
+    }
+
+    setError('')
+    setSkipped([])
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/signers/${signerId}/addresses/${address.id}/replace`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          newAddress: newAddress.trim(),
+          type: newAddressType.trim() || undefined,
+          addressTypeId: newAddressTypeId || null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to move wallet links')
+        setSkipped(data.skipped || [])
+        return
+      }
+      onSuccess(data.newAddress)
+      // Stay open so the Safes still waiting on their swap are visible
+      if (data.skipped.length > 0) {
+        setSkipped(data.skipped)
+        return
+      }
+      onClose()
+    } catch {
+      setError('An error occurred while moving wallet links')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50 overflow-y-auto">
+      <div className="w-full max-w-5xl rounded-lg bg-gray-50 p-6 shadow-xl my-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-black">Replace Address</h2>
+          <p className="mt-2 text-sm text-black">
+            Generate <span className="font-mono">swapOwner</span> batches replacing{' '}
+            <span className="font-mono">{address.address}</span>
+            {address.type && ` (${address.type})`} on every Safe where it is an owner.
+          </p>
+        </div>
+
+        <div className="mb-6 grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="md:col-span-2">
+            <label htmlFor="replacementAddress" className="block text-xs font-medium text-black mb-1">
+              New Address <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="replacementAddress"
+              type="text"
+              value={newAddress}
+              onChange={(e) => {
+                setNewAddress(e.target.value)
+                setPlan(null)
+              }}
+              placeholder="0x..."
+              className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="replacementType" className="block text-xs font-medium text-black mb-1">
+              Label <span className="text-xs text-gray-500">(optional)</span>
+            </label>
+            <input
+              id="replacementType"
+              type="text"
+              value={newAddressType}
+              onChange={(e) => setNewAddressType(e.target.value)}
+              placeholder="Ledger, Hot Wallet, etc."
+              className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="replacementAddressTypeId" className="block text-xs font-medium text-black mb-1">
+              Address Type <span className="text-xs text-gray-500">(optional)</span>
+            </label>
+            <AddressTypeSelect
+              id="replacementAddressTypeId"
+              value={newAddressTypeId}
+              onChange={setNewAddressTypeId}
+              className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+
+        {plan && (
+          <div className="mb-6">
+            <OwnerChangePlanView
+              plan={plan}
+              filePrefix={`rotate-${address.address.slice(0, 8)}-to-${newAddress.trim().slice(0, 8)}`}
+            />
+          </div>
+        )}
+
+        {skipped.length > 0 && (
+          <div className="mb-4 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-black">
+            <div className="font-semibold">Wallet links left on the old address</div>
+            <ul className="mt-1 list-disc pl-5">
+              {skipped.map((safe) => (
+                <li key={safe.walletId}>
+                  {safe.name || <span className="font-mono">{safe.address}</span>} on {getChainName(safe.chainId)}: {safe.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-3">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-black hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handlePlan}
+            disabled={loading || !newAddress.trim()}
+            className="rounded-md bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {loading && !plan ? 'Scanning chains…' : 'Plan swap'}
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={loading || !plan}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Confirm &amp; move wallet links
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { SIGNER_STATUS_CLASSES, SIGNER_STATUS_LABELS, isSignerStatus } from '@/lib/signer-status'
+
+interface SignerStatusBadgeProps {
+  status: string
+  since?: Date | string | null
+  until?: Date | string | null
+  deletedAt?: Date | string | null
+}
+
+export default function SignerStatusBadge({ status, since, until, deletedAt }: SignerStatusBadgeProps) {
+  const key = isSignerStatus(status) ? status : 'active'
+  const title = [
+    since && `Since ${new Date(since).toLocaleDateString()}`,
+    until && `Until ${new Date(until).toLocaleDateString()}`,
+    deletedAt && `Removed ${new Date(deletedAt).toLocaleDateString()}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  return (
+    <span className={`rounded px-2 py-1 text-xs font-medium ${SIGNER_STATUS_CLASSES[key]}`} title={title || undefined}>
+      {deletedAt ? 'Removed' : SIGNER_STATUS_LABELS[key]}
+    </span>
+  )
+}
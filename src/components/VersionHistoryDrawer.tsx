@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { EntityVersionEntry } from '@/types'
+
+type VersionValue = EntityVersionEntry['data'][string]
+
+interface VersionHistoryDrawerProps {
+  isOpen: boolean
+  onClose: () => void
+  onRestored: (entity: Record<string, unknown>) => void
+  title: string
+  endpoint: string // e.g. /api/wallets/[id]/versions
+  fieldLabels: Record<string, string>
+  formatValue?: (field: string, value: VersionValue) => string
+}
+
+export default function VersionHistoryDrawer({
+  isOpen,
+  onClose,
+  onRestored,
+  title,
+  endpoint,
+  fieldLabels,
+  formatValue,
+}: VersionHistoryDrawerProps) {
+  const [versions, setVersions] = useState<EntityVersionEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadVersions = async () => {
+      setLoading(true)
+      setError('')
+      try {
+        const response = await fetch(endpoint)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || 'Failed to load history')
+          return
+        }
+        setVersions(data)
+      } catch {
+        setError('Failed to load history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadVersions()
+  }, [isOpen, endpoint, reloadKey])
+
+  if (!isOpen) return null
+
+  const handleRestore = async (version: EntityVersionEntry) => {
+    if (!confirm(`Restore version ${version.version}? The current values are kept in the history.`)) return
+
+    setRestoringId(version.id)
+    setError('')
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId: version.id }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to restore version')
+        return
+      }
+      onRestored(data)
+      setReloadKey((key) => key + 1)
+    } catch {
+      setError('An error occurred while restoring the version')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const display = (field: string, value: VersionValue) =>
+    formatValue ? formatValue(field, value) : value === null || value === '' ? '—' : String(value)
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+      <div className="h-full w-full max-w-md overflow-y-auto bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="mb-4 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-black">History</h2>
+            <p className="mt-1 text-sm text-black">{title}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm font-medium text-black hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-3">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading && versions.length === 0 ? (
+          <div className="py-8 text-center text-black">Loading...</div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-black">No history recorded yet.</p>
+        ) : (
+          <ol className="space-y-3">
+            {versions.map((version, index) => {
+              const previous = versions[index + 1]
+              const isCurrent = index === 0
+              return (
+                <li key={version.id} className="rounded-md border border-gray-200 p-3">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-semibold text-black">
+                      Version {version.version}
+                      {isCurrent && (
+                        <span className="ml-2 rounded bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                          Current
+                        </span>
+                      )}
+                    </div>
+                    {!isCurrent && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoringId !== null}
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                      >
+                        {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    )}
+                  </div>
+                  <div className="mt-1 text-xs text-gray-600">
+                    {new Date(version.createdAt).toLocaleString()} · {version.actor || 'initial import'}
+                  </div>
+                  <dl className="mt-2 space-y-1 text-sm">
+                    {Object.entries(fieldLabels).map(([field, label]) => {
+                      // Fields added to versioning later are missing from older versions
+                      const changed = previous && (previous.data[field] ?? null) !== (version.data[field] ?? null)
+                      return (
+                        <div key={field} className="flex gap-2">
+                          <dt className="w-24 shrink-0 text-gray-600">{label}</dt>
+                          <dd className={`break-all ${changed ? 'font-medium text-indigo-700' : 'text-black'}`}>
+                            {display(field, version.data[field] ?? null)}
+                          </dd>
+                        </div>
+                      )
+                    })}
+                  </dl>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
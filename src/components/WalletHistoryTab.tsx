@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatEther } from 'ethers'
+import AddressDisplay from '@/components/AddressDisplay'
+import type { WalletHistory, WalletHistoryConfirmation, WalletHistoryTransaction } from '@/types'
+
+interface WalletHistoryTabProps {
+  walletId: string
+}
+
+// Matches the page size of /api/wallets/[id]/history
+const PAGE_SIZE = 25
+
+const TX_TYPE_LABELS: Record<WalletHistoryTransaction['txType'], string> = {
+  MULTISIG_TRANSACTION: 'Multisig',
+  MODULE_TRANSACTION: 'Module',
+  ETHEREUM_TRANSACTION: 'Incoming',
+}
+
+export default function WalletHistoryTab({ walletId }: WalletHistoryTabProps) {
+  const [history, setHistory] = useState<WalletHistory | null>(null)
+  const [offset, setOffset] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/wallets/${walletId}/history?offset=${offset}`)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || 'Failed to fetch transaction history')
+          return
+        }
+        setHistory(data)
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to fetch transaction history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [walletId, offset])
+
+  const renderConfirmation = (confirmation: WalletHistoryConfirmation) => (
+    <div key={confirmation.address} className="flex items-center gap-1">
+      {confirmation.signerId ? (
+        <Link href={`/signers/${confirmation.signerId}`} className="text-sm text-blue-600 hover:text-blue-800">
+          {confirmation.signerName}
+        </Link>
+      ) : (
+        <AddressDisplay address={confirmation.address} linkToSigner={false} />
+      )}
+    </div>
+  )
+
+  if (loading && !history) {
+    return <p className="text-black">Loading transaction history…</p>
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+        <div className="font-semibold">History unavailable</div>
+        <div className="mt-1">{error}</div>
+      </div>
+    )
+  }
+
+  if (!history || history.transactions.length === 0) {
+    return <p className="text-black">No executed transactions found.</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <p className="mb-4 text-sm text-black">{history.count} executed transaction(s)</p>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Executed
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Type
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Nonce
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Target
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Value
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Method
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Confirmed by
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {history.transactions.map((tx, index) => (
+            <tr key={tx.safeTxHash || tx.txHash || index} className="align-top hover:bg-gray-50">
+              <td className="whitespace-nowrap px-4 py-4 text-sm text-black">
+                {tx.executionDate ? new Date(tx.executionDate).toLocaleString() : '-'}
+                {tx.isSuccessful === false && (
+                  <span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-800">
+                    Failed
+                  </span>
+                )}
+              </td>
+              <td className="whitespace-nowrap px-4 py-4 text-sm text-black">{TX_TYPE_LABELS[tx.txType] || tx.txType}</td>
+              <td className="whitespace-nowrap px-4 py-4 text-sm text-black">{tx.nonce ?? '-'}</td>
+              <td className="whitespace-nowrap px-4 py-4">
+                {tx.to ? <AddressDisplay address={tx.to} linkToSigner={false} /> : <span className="text-sm text-black">-</span>}
+              </td>
+              <td className="whitespace-nowrap px-4 py-4 text-sm text-black">
+                {!tx.value || tx.value === '0' ? '0' : formatEther(tx.value)}
+              </td>
+              <td className="whitespace-nowrap px-4 py-4 font-mono text-xs text-black">{tx.method || '-'}</td>
+              <td className="px-4 py-4">
+                {tx.confirmations.length === 0 ? (
+                  <span className="text-sm text-black">-</span>
+                ) : (
+                  tx.confirmations.map(renderConfirmation)
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-4 flex items-center justify-end gap-2">
+        <button
+          onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+          disabled={loading || offset === 0}
+          className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm text-black hover:bg-gray-50 disabled:opacity-50"
+        >
+          Newer
+        </button>
+        <button
+          onClick={() => setOffset(offset + PAGE_SIZE)}
+          disabled={loading || !history.hasMore}
+          className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm text-black hover:bg-gray-50 disabled:opacity-50"
+        >
+          Older
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatEther } from 'ethers'
+import AddressDisplay from '@/components/AddressDisplay'
+import type { WalletQueue, QueuedTransactionOwner } from '@/types'
+
+interface WalletQueueTabProps {
+  walletId: string
+}
+
+export default function WalletQueueTab({ walletId }: WalletQueueTabProps) {
+  const [queue, setQueue] = useState<WalletQueue | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/wallets/${walletId}/queue`)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || 'Failed to fetch pending transactions')
+          return
+        }
+        setQueue(data)
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to fetch pending transactions')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadQueue()
+  }, [walletId])
+
+  const renderOwner = (owner: QueuedTransactionOwner) => (
+    <div key={owner.address} className="flex items-center gap-1">
+      {owner.signerId ? (
+        <Link href={`/signers/${owner.signerId}`} className="text-sm text-blue-600 hover:text-blue-800">
+          {owner.signerName}
+        </Link>
+      ) : (
+        <AddressDisplay address={owner.address} linkToSigner={false} />
+      )}
+    </div>
+  )
+
+  if (loading) {
+    return <p className="text-black">Loading pending transactions…</p>
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-black">
+        <div className="font-semibold">Queue unavailable</div>
+        <div className="mt-1">{error}</div>
+      </div>
+    )
+  }
+
+  if (!queue || queue.transactions.length === 0) {
+    return <p className="text-black">No transactions are waiting for signatures.</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <p className="mb-4 text-sm text-black">
+        Current nonce {queue.nonce} · {queue.transactions.length} pending transaction(s)
+      </p>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Nonce
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Target
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Value
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Method
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Confirmations
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Signed
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-black">
+              Not signed
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {queue.transactions.map((tx) => {
+            const signed = tx.owners.filter((owner) => owner.signed)
+            const notSigned = tx.owners.filter((owner) => !owner.signed)
+            const ready = tx.confirmationsCollected >= tx.confirmationsRequired
+            return (
+              <tr key={tx.safeTxHash} className="align-top hover:bg-gray-50">
+                <td className="whitespace-nowrap px-4 py-4 text-sm text-black">{tx.nonce}</td>
+                <td className="whitespace-nowrap px-4 py-4">
+                  <AddressDisplay address={tx.to} linkToSigner={false} />
+                </td>
+                <td className="whitespace-nowrap px-4 py-4 text-sm text-black">
+                  {tx.value === '0' ? '0' : formatEther(tx.value)}
+                </td>
+                <td className="whitespace-nowrap px-4 py-4 font-mono text-xs text-black">
+                  {tx.method || (tx.operation === 1 ? 'delegatecall' : 'transfer / unknown')}
+                </td>
+                <td className="whitespace-nowrap px-4 py-4 text-sm">
+                  <span className={ready ? 'font-semibold text-green-700' : 'text-black'}>
+                    {tx.confirmationsCollected} / {tx.confirmationsRequired}
+                  </span>
+                </td>
+                <td className="px-4 py-4">
+                  {signed.length === 0 ? <span className="text-sm text-black">-</span> : signed.map(renderOwner)}
+                </td>
+                <td className="px-4 py-4">
+                  {notSigned.length === 0 ? <span className="text-sm text-black">-</span> : notSigned.map(renderOwner)}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -1,22 +1,16 @@
 'use client'
 
+import { TAG_COLOR_CLASSES, isTagColor } from '@/lib/tag-colors'
+
 interface WalletTagProps {
   tag: string
+  color?: string // Catalog color; unknown values render gray
   onRemove?: () => void
   className?: string
 }
 
-const TAG_COLORS: Record<string, { bg: string; text: string }> = {
-  Treasury: { bg: 'bg-blue-100', text: 'text-blue-800' },
-  Ops: { bg: 'bg-green-100', text: 'text-green-800' },
-  'High Security': { bg: 'bg-red-100', text: 'text-red-800' },
-  Deprecated: { bg: 'bg-gray-100', text: 'text-gray-800' },
-  Payroll: { bg: 'bg-purple-100', text: 'text-purple-800' },
-  Investments: { bg: 'bg-yellow-100', text: 'text-yellow-800' },
-}
-
-export default function WalletTag({ tag, onRemove, className = '' }: WalletTagProps) {
-  const colors = TAG_COLORS[tag] || { bg: 'bg-gray-100', text: 'text-gray-800' }
+export default function WalletTag({ tag, color, onRemove, className = '' }: WalletTagProps) {
+  const colors = TAG_COLOR_CLASSES[color && isTagColor(color) ? color : 'gray']
 
   return (
     <span
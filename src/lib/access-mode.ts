@@ -0,0 +1,31 @@
+/**
+ * Deployment access mode
+ * - public (default): pages and GET APIs are readable without logging in
+ * - private: every page and API requires a valid session, except the allowlist below
+ */
+
+export type AccessMode = 'public' | 'private'
+
+// Reachable without a session in private mode. Cron routes authenticate with CRON_SECRET.
+const DEFAULT_ALLOWLIST = ['/login', '/api/auth/', '/api/health', '/api/cron/']
+
+export function getAccessMode(): AccessMode {
+  return process.env.ACCESS_MODE?.trim().toLowerCase() === 'private' ? 'private' : 'public'
+}
+
+/**
+ * Path prefixes open in private mode: the defaults plus PRIVATE_MODE_ALLOWLIST (comma-separated)
+ */
+export function getPrivateModeAllowlist(): string[] {
+  const extra = (process.env.PRIVATE_MODE_ALLOWLIST || '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter((p) => p.startsWith('/'))
+  return [...DEFAULT_ALLOWLIST, ...extra]
+}
+
+export function isAllowlistedPath(pathname: string): boolean {
+  return getPrivateModeAllowlist().some((prefix) =>
+    prefix.endsWith('/') ? pathname.startsWith(prefix) : pathname === prefix || pathname.startsWith(`${prefix}/`)
+  )
+}
@@ -0,0 +1,104 @@
+/**
+ * Last outgoing transaction of signer EOAs, looked up over a configurable JSON-RPC
+ * endpoint (ACTIVITY_RPC_URL) and cached on SignerAddress
+ */
+
+import { JsonRpcProvider } from 'ethers'
+import { db } from './db'
+import { processInBatches } from './rate-limiter'
+
+export interface RefreshAddressActivityResult {
+  checked: number
+  updated: number
+  failed: Array<{
+    addressId: string
+    address: string
+    error: string
+  }>
+}
+
+/**
+ * JSON-RPC endpoint used for EOA activity lookups, or null when not configured.
+ * Must serve historical state (archive node); a local anvil fork works for testing.
+ */
+export function getActivityRpcUrl(): string | null {
+  return process.env.ACTIVITY_RPC_URL?.trim() || null
+}
+
+/**
+ * Find the timestamp of the block holding the address's most recent outgoing transaction.
+ * The nonce only increases, so the first block where it reaches `nonce` contains that transaction.
+ */
+async function findLastOutgoingTxAt(
+  provider: JsonRpcProvider,
+  address: string,
+  nonce: number,
+  latestBlock: number
+): Promise<Date | null> {
+  let low = 0
+  let high = latestBlock
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    const nonceAtMid = await provider.getTransactionCount(address, mid)
+    if (nonceAtMid >= nonce) {
+      high = mid
+    } else {
+      low = mid + 1
+    }
+  }
+
+  const block = await provider.getBlock(low)
+  return block ? new Date(block.timestamp * 1000) : null
+}
+
+/**
+ * Refresh last outgoing transaction time for every signer address.
+ * Addresses whose nonce has not changed since the last check skip the block search.
+ */
+export async function refreshAddressActivity(): Promise<RefreshAddressActivityResult> {
+  const rpcUrl = getActivityRpcUrl()
+  if (!rpcUrl) {
+    throw new Error('ACTIVITY_RPC_URL is not configured')
+  }
+
+  const provider = new JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true })
+  const latestBlock = await provider.getBlockNumber()
+
+  const addresses = await db.signerAddress.findMany({
+    select: { id: true, address: true, lastOutgoingNonce: true },
+  })
+
+  const result: RefreshAddressActivityResult = { checked: 0, updated: 0, failed: [] }
+
+  await processInBatches(
+    addresses,
+    async (row) => {
+      try {
+        const nonce = await provider.getTransactionCount(row.address, latestBlock)
+        const data: { activityCheckedAt: Date; lastOutgoingNonce?: number; lastOutgoingTxAt?: Date | null } = {
+          activityCheckedAt: new Date(),
+        }
+
+        if (nonce !== row.lastOutgoingNonce) {
+          data.lastOutgoingNonce = nonce
+          data.lastOutgoingTxAt = nonce === 0 ? null : await findLastOutgoingTxAt(provider, row.address, nonce, latestBlock)
+          result.updated++
+        }
+
+        await db.signerAddress.update({ where: { id: row.id }, data })
+        result.checked++
+      } catch (error) {
+        result.failed.push({
+          addressId: row.id,
+          address: row.address,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    },
+    5,
+    200
+  )
+
+  return result
+}
@@ -0,0 +1,106 @@
+/**
+ * Address type catalog helpers: version history mapping and which Safes can be
+ * operated with hot wallets alone
+ */
+
+import { db } from './db'
+import { loadOwnershipWallets } from './snapshots'
+import type { HotWalletSafe } from '@/types'
+
+/**
+ * Signer address row with its address type as a name and the acquired date as YYYY-MM-DD,
+ * the form kept in version history
+ */
+export function toVersionedSignerAddress<T extends { addressType: { name: string } | null; acquiredAt: Date | null }>(
+  signerAddress: T
+) {
+  return {
+    ...signerAddress,
+    addressType: signerAddress.addressType?.name ?? null,
+    acquiredAt: signerAddress.acquiredAt?.toISOString().slice(0, 10) ?? null,
+  }
+}
+
+/**
+ * Address type id for a name, matched case-insensitively. Used when restoring versions.
+ * A type deleted since has no custody kind to recreate it with, so the address is left unclassified.
+ */
+export async function resolveAddressTypeId(name: string | null | undefined): Promise<string | null> {
+  const trimmed = name?.trim()
+  if (!trimmed) return null
+
+  const existing = await db.addressType.findFirst({
+    where: { name: { equals: trimmed, mode: 'insensitive' } },
+  })
+  return existing?.id ?? null
+}
+
+/**
+ * Apply a rename to signer address version history so restoring an old
+ * version brings back the address type under its current name
+ */
+export async function renameAddressTypeInVersions(oldName: string, newName: string): Promise<void> {
+  const versions = await db.entityVersion.findMany({ where: { entityType: 'signer_address' } })
+  for (const version of versions) {
+    const data = version.data as Record<string, string | number | null>
+    if (typeof data.addressType !== 'string' || data.addressType.toLowerCase() !== oldName.toLowerCase()) continue
+    await db.entityVersion.update({
+      where: { id: version.id },
+      data: { data: { ...data, addressType: newName } },
+    })
+  }
+}
+
+/**
+ * Safes with at least one hot wallet owner, and whether the hot wallets alone
+ * reach the threshold. Those that do come first.
+ */
+export async function getHotWalletReport(): Promise<HotWalletSafe[]> {
+  const [wallets, signerAddresses] = await Promise.all([
+    loadOwnershipWallets(),
+    db.signerAddress.findMany({
+      include: { addressType: true, signer: { select: { id: true, name: true } } },
+    }),
+  ])
+
+  const byAddress = new Map(signerAddresses.map((signerAddress) => [signerAddress.address.toLowerCase(), signerAddress]))
+
+  const safes: HotWalletSafe[] = []
+  for (const wallet of wallets) {
+    const hotOwners: HotWalletSafe['hotOwners'] = []
+    let unclassifiedOwnerCount = 0
+    for (const owner of wallet.owners) {
+      const known = byAddress.get(owner)
+      if (!known?.addressType) {
+        unclassifiedOwnerCount++
+      } else if (known.addressType.custody === 'hot') {
+        hotOwners.push({
+          address: owner,
+          signerId: known.signer.id,
+          signerName: known.signer.name,
+          addressType: known.addressType.name,
+        })
+      }
+    }
+    if (hotOwners.length === 0) continue
+
+    safes.push({
+      walletId: wallet.id,
+      address: wallet.address,
+      name: wallet.name,
+      chainId: wallet.chainId,
+      threshold: wallet.threshold,
+      ownerCount: wallet.owners.length,
+      hotOwners,
+      unclassifiedOwnerCount,
+      canMeetThreshold: wallet.threshold === null ? null : hotOwners.length >= wallet.threshold,
+      snapshotAt: wallet.snapshotAt,
+    })
+  }
+
+  safes.sort(
+    (a, b) =>
+      Number(b.canMeetThreshold === true) - Number(a.canMeetThreshold === true) || b.hotOwners.length - a.hotOwners.length
+  )
+  return safes
+}
@@ -0,0 +1,123 @@
+/**
+ * Audit trail for changes to the wallet/signer mapping
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { getClientInfo, type Session } from './auth'
+
+export type AuditEntityType =
+  | 'wallet'
+  | 'signer'
+  | 'signer_address'
+  | 'tag'
+  | 'department'
+  | 'address_type'
+  | 'lockout' // entityId is the locked-out username or IP
+
+interface AuditEventInput {
+  action: string
+  entityType: AuditEntityType
+  entityId: string
+  before?: unknown
+  after?: unknown
+}
+
+// Dates and nested includes become plain JSON
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  if (value === undefined || value === null) return Prisma.DbNull
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+}
+
+/**
+ * Record who made a change. Called after the change succeeded; a failure here is
+ * logged but does not fail the request, like the JSON sync.
+ */
+export async function recordAuditEvent(session: Session, event: AuditEventInput): Promise<void> {
+  try {
+    const { ip } = await getClientInfo()
+    await db.auditEvent.create({
+      data: {
+        actorId: session.userId,
+        actor: session.username,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        before: toJson(event.before),
+        after: toJson(event.after),
+        ip,
+      },
+    })
+  } catch (error) {
+    console.error(`[Audit] ❌ Failed to record ${event.action} for ${event.entityType} ${event.entityId}:`, error)
+  }
+}
+
+function csvCell(value: string | null): string {
+  if (value === null) return ''
+  // Keep spreadsheet apps from evaluating names like "=HYPERLINK(...)"
+  if (/^[=+\-@]/.test(value)) value = `'${value}`
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+const CSV_HEADER = ['timestamp', 'actor', 'action', 'entity_type', 'entity_id', 'ip', 'before', 'after']
+const CSV_PAGE_SIZE = 1000
+
+function auditEventCsvRow(event: {
+  createdAt: Date
+  actor: string
+  action: string
+  entityType: string
+  entityId: string
+  ip: string | null
+  before: Prisma.JsonValue
+  after: Prisma.JsonValue
+}): string {
+  return [
+    event.createdAt.toISOString(),
+    event.actor,
+    event.action,
+    event.entityType,
+    event.entityId,
+    event.ip,
+    event.before === null ? null : JSON.stringify(event.before),
+    event.after === null ? null : JSON.stringify(event.after),
+  ]
+    .map(csvCell)
+    .join(',')
+}
+
+/**
+ * CSV export for compliance reviews; before/after are embedded as JSON strings.
+ * Streams every matching event, newest first, reading CSV_PAGE_SIZE rows at a time.
+ */
+export function streamAuditEventsCsv(where: Prisma.AuditEventWhereInput): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let cursor: string | null = null
+  let headerSent = false
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!headerSent) {
+        headerSent = true
+        controller.enqueue(encoder.encode(CSV_HEADER.join(',') + '\n'))
+        return
+      }
+
+      // The id tiebreak keeps pages stable when several events share a timestamp
+      const events = await db.auditEvent.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: CSV_PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      })
+      if (events.length > 0) {
+        controller.enqueue(encoder.encode(events.map((event) => auditEventCsvRow(event) + '\n').join('')))
+        cursor = events[events.length - 1].id
+      }
+      if (events.length < CSV_PAGE_SIZE) {
+        controller.close()
+      }
+    },
+  })
+}
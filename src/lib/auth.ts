@@ -1,27 +1,99 @@
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
+import { createHmac, timingSafeEqual } from 'crypto'
 import { db } from './db'
+import { getRolePermissions, type Permission } from './permissions'
 import bcrypt from 'bcryptjs'
 
-const SESSION_COOKIE_NAME = 'multisig-session'
-const SESSION_SECRET = process.env.SESSION_SECRET || 'default-secret-change-in-production'
+export const SESSION_COOKIE_NAME = 'multisig-session'
+const DEFAULT_SESSION_SECRET = 'default-secret-change-in-production'
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7 // 7 days
+export const MIN_PASSWORD_LENGTH = 8
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000 // Avoid a DB write on every request
 
 export interface Session {
+  sessionId: string
   userId: string
   username: string
-  isAdmin: boolean
+  role: string
+  permissions: Permission[]
 }
 
-export async function createSession(userId: string, username: string, isAdmin: boolean): Promise<void> {
+// Signed cookie payload - only points at the stored session, roles are re-read from the DB
+interface SessionToken {
+  sid: string
+  iat: number // Issued at (unix seconds)
+  exp: number // Expires at (unix seconds)
+}
+
+/**
+ * Resolve the signing secret. The built-in default is refused in production.
+ */
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET?.trim()
+  if (!secret || secret === DEFAULT_SESSION_SECRET) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET must be set to a non-default value in production')
+    }
+    return DEFAULT_SESSION_SECRET
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url')
+}
+
+function encodeToken(token: SessionToken): string {
+  const payload = Buffer.from(JSON.stringify(token)).toString('base64url')
+  return `${payload}.${sign(payload)}`
+}
+
+/**
+ * Verify signature and expiry; returns null for anything tampered, malformed or expired
+ */
+function decodeToken(value: string): SessionToken | null {
+  const [payload, signature, ...rest] = value.split('.')
+  if (!payload || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(sign(payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const token = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionToken
+    if (typeof token.sid !== 'string' || typeof token.exp !== 'number') return null
+    if (token.exp <= Math.floor(Date.now() / 1000)) return null
+    return token
+  } catch {
+    return null
+  }
+}
+
+export async function getClientInfo(): Promise<{ ip: string | null; userAgent: string | null }> {
+  const headerStore = await headers()
+  const forwarded = headerStore.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return {
+    ip: forwarded || headerStore.get('x-real-ip') || null,
+    userAgent: headerStore.get('user-agent'),
+  }
+}
+
+export async function createSession(userId: string): Promise<void> {
   const cookieStore = await cookies()
-  const sessionData: Session = { userId, username, isAdmin }
-  
-  // In a production app, you'd want to encrypt this or use a proper session store
-  // For simplicity, we're storing JSON in the cookie (with size limits)
-  cookieStore.set(SESSION_COOKIE_NAME, JSON.stringify(sessionData), {
+  const { ip, userAgent } = await getClientInfo()
+  const now = Math.floor(Date.now() / 1000)
+  const exp = now + SESSION_MAX_AGE_SECONDS
+
+  const stored = await db.session.create({
+    data: { userId, ip, userAgent, expiresAt: new Date(exp * 1000) },
+  })
+  const token: SessionToken = { sid: stored.id, iat: now, exp }
+
+  cookieStore.set(SESSION_COOKIE_NAME, encodeToken(token), {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    maxAge: SESSION_MAX_AGE_SECONDS,
     path: '/',
   })
 }
@@ -34,19 +106,76 @@ export async function getSession(): Promise<Session | null> {
     return null
   }
 
-  try {
-    const session = JSON.parse(sessionCookie.value) as Session
-    return session
-  } catch {
+  return resolveSessionCookie(sessionCookie.value)
+}
+
+/**
+ * Validate a raw session cookie value against the store. Used directly by middleware,
+ * where `cookies()` is not available.
+ */
+export async function resolveSessionCookie(value: string): Promise<Session | null> {
+  const token = decodeToken(value)
+  if (!token) {
     return null
   }
+
+  // Re-read the session and user so revoked sessions and deleted or demoted users lose access immediately
+  const stored = await db.session.findUnique({
+    where: { id: token.sid },
+    include: { user: { select: { id: true, username: true, role: true, disabledAt: true } } },
+  })
+  if (!stored || stored.revokedAt || stored.expiresAt <= new Date() || stored.user.disabledAt) {
+    return null
+  }
+
+  if (Date.now() - stored.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await db.session.update({ where: { id: stored.id }, data: { lastSeenAt: new Date() } }).catch((error) => {
+      console.error('Failed to update session last seen:', error)
+    })
+  }
+
+  return {
+    sessionId: stored.id,
+    userId: stored.user.id,
+    username: stored.user.username,
+    role: stored.user.role,
+    permissions: getRolePermissions(stored.user.role),
+  }
 }
 
+/**
+ * Revoke the current session in the store and clear the cookie
+ */
 export async function deleteSession(): Promise<void> {
   const cookieStore = await cookies()
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)
+  const token = sessionCookie ? decodeToken(sessionCookie.value) : null
+
+  if (token) {
+    await revokeSession(token.sid)
+  }
   cookieStore.delete(SESSION_COOKIE_NAME)
 }
 
+export async function revokeSession(sessionId: string): Promise<boolean> {
+  const { count } = await db.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count > 0
+}
+
+/**
+ * Force logout everywhere for a user. Returns the number of sessions revoked.
+ */
+export async function revokeUserSessions(userId: string): Promise<number> {
+  const { count } = await db.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count
+}
+
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
   return bcrypt.compare(password, hash)
 }
@@ -63,10 +192,14 @@ export async function requireAuth(): Promise<Session> {
   return session
 }
 
-export async function requireAdmin(): Promise<Session> {
+/**
+ * Require a logged-in user whose role grants `permission`.
+ * Throws 'Unauthorized' (401) or 'Forbidden' (403).
+ */
+export async function requirePermission(permission: Permission): Promise<Session> {
   const session = await requireAuth()
-  if (!session.isAdmin) {
-    throw new Error('Forbidden: Admin access required')
+  if (!session.permissions.includes(permission)) {
+    throw new Error('Forbidden')
   }
   return session
 }
@@ -0,0 +1,28 @@
+/**
+ * How the key behind an address type is held, shared by the address type API and badges
+ */
+
+export const CUSTODY_KINDS = ['hardware', 'hot', 'mpc', 'smart_account', 'other'] as const
+
+export type CustodyKind = (typeof CUSTODY_KINDS)[number]
+
+export const CUSTODY_LABELS: Record<CustodyKind, string> = {
+  hardware: 'Hardware wallet',
+  hot: 'Hot wallet',
+  mpc: 'MPC',
+  smart_account: 'Smart account',
+  other: 'Other',
+}
+
+// Full class names so Tailwind keeps them in the build
+export const CUSTODY_CLASSES: Record<CustodyKind, string> = {
+  hardware: 'bg-green-100 text-green-800',
+  hot: 'bg-red-100 text-red-800',
+  mpc: 'bg-blue-100 text-blue-800',
+  smart_account: 'bg-purple-100 text-purple-800',
+  other: 'bg-gray-100 text-gray-800',
+}
+
+export function isCustodyKind(value: string): value is CustodyKind {
+  return (CUSTODY_KINDS as readonly string[]).includes(value)
+}
@@ -0,0 +1,234 @@
+/**
+ * Department catalog helpers: duplicate detection for the review screen and
+ * which Safes a department's signers control between them
+ */
+
+import { db } from './db'
+import { loadOwnershipWallets, type OwnershipWallet } from './snapshots'
+import type { DepartmentMergeSuggestion, DepartmentReport, DepartmentSafe, DepartmentSummary } from '@/types'
+
+/**
+ * Collapse whitespace so "Finance " and "Finance" are the same name
+ */
+export function normalizeDepartmentName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Signer row with its department as a name, the form kept in version history and audit events
+ */
+export function toVersionedSigner<T extends { department: { name: string } | null }>(signer: T) {
+  return { ...signer, department: signer.department?.name ?? null }
+}
+
+/**
+ * Department id for a name, matched case-insensitively and created if missing.
+ * Used when restoring versions and importing from JSON, which store names.
+ */
+export async function resolveDepartmentId(name: string | null | undefined): Promise<string | null> {
+  const normalized = name ? normalizeDepartmentName(name) : ''
+  if (!normalized) return null
+
+  const existing = await db.department.findFirst({
+    where: { name: { equals: normalized, mode: 'insensitive' } },
+  })
+  if (existing) return existing.id
+
+  const created = await db.department.upsert({
+    where: { name: normalized },
+    create: { name: normalized },
+    update: {},
+  })
+  return created.id
+}
+
+/**
+ * Apply a rename (or merge) to signer version history so restoring an old
+ * version brings back the department under its current name
+ */
+export async function renameDepartmentInVersions(oldName: string, newName: string): Promise<void> {
+  // Versions from before the department catalog hold the raw free text, so compare loosely
+  const key = normalizeDepartmentName(oldName).toLowerCase()
+  const versions = await db.entityVersion.findMany({ where: { entityType: 'signer' } })
+  for (const version of versions) {
+    const data = version.data as Record<string, string | number | null>
+    if (typeof data.department !== 'string' || normalizeDepartmentName(data.department).toLowerCase() !== key) continue
+    await db.entityVersion.update({
+      where: { id: version.id },
+      data: { data: { ...data, department: newName } },
+    })
+  }
+}
+
+function comparable(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function initials(name: string): string {
+  return name
+    .split(/[\s&/-]+/)
+    .filter((word) => word.length > 0 && !['and', 'of', 'the'].includes(word.toLowerCase()))
+    .map((word) => word[0].toLowerCase())
+    .join('')
+}
+
+// "ops" in "operations": same first letter, remaining letters in order
+function isAbbreviation(short: string, long: string): boolean {
+  if (short[0] !== long[0]) return false
+  let i = 0
+  for (const char of long) {
+    if (char === short[i]) i++
+    if (i === short.length) return true
+  }
+  return false
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Why two department names probably mean the same department, or null
+ */
+function similarityReason(a: string, b: string): string | null {
+  const x = comparable(a)
+  const y = comparable(b)
+  if (!x || !y) return null
+  if (x === y) return 'Same name apart from spacing or punctuation'
+
+  const [shortName, longName] = x.length <= y.length ? [a, b] : [b, a]
+  const [short, long] = x.length <= y.length ? [x, y] : [y, x]
+  if (short.length >= 2 && long.startsWith(short)) return `"${shortName}" looks like an abbreviation of "${longName}"`
+  if (short.length >= 3 && isAbbreviation(short, long)) return `"${shortName}" could be short for "${longName}"`
+  if (short.length >= 2 && initials(longName) === short) return `"${shortName}" matches the initials of "${longName}"`
+  if (short.length >= 4 && editDistance(x, y) <= (long.length >= 8 ? 2 : 1)) return 'Spelled almost the same'
+  return null
+}
+
+/**
+ * Pairs of departments that look like duplicates. The one with fewer signers is
+ * suggested as the source so merging it moves the fewest people.
+ */
+export function findDepartmentMergeSuggestions(
+  departments: Array<{ id: string; name: string; signerCount: number }>
+): DepartmentMergeSuggestion[] {
+  const suggestions: DepartmentMergeSuggestion[] = []
+  for (let i = 0; i < departments.length; i++) {
+    for (let j = i + 1; j < departments.length; j++) {
+      const reason = similarityReason(departments[i].name, departments[j].name)
+      if (!reason) continue
+      const [a, b] = [departments[i], departments[j]]
+      const aIsTarget = a.signerCount > b.signerCount || (a.signerCount === b.signerCount && a.name.length >= b.name.length)
+      suggestions.push({ source: aIsTarget ? b : a, target: aIsTarget ? a : b, reason })
+    }
+  }
+  return suggestions
+}
+
+/**
+ * Safes with at least one owner among the given addresses, and whether those
+ * owners alone can reach the threshold
+ */
+function getDepartmentSafes(
+  wallets: OwnershipWallet[],
+  memberAddresses: Map<string, { signerId: string; signerName: string }>
+): DepartmentSafe[] {
+  const safes: DepartmentSafe[] = []
+  for (const wallet of wallets) {
+    const departmentOwners = wallet.owners.flatMap((owner) => {
+      const member = memberAddresses.get(owner)
+      return member ? [{ address: owner, ...member }] : []
+    })
+    if (departmentOwners.length === 0) continue
+
+    safes.push({
+      walletId: wallet.id,
+      address: wallet.address,
+      name: wallet.name,
+      chainId: wallet.chainId,
+      threshold: wallet.threshold,
+      ownerCount: wallet.owners.length,
+      departmentOwners,
+      canMeetThreshold: wallet.threshold === null ? null : departmentOwners.length >= wallet.threshold,
+      snapshotAt: wallet.snapshotAt,
+    })
+  }
+  return safes
+}
+
+function memberAddressMap(signers: Array<{ id: string; name: string; addresses: Array<{ address: string }> }>) {
+  const members = new Map<string, { signerId: string; signerName: string }>()
+  for (const signer of signers) {
+    for (const { address } of signer.addresses) {
+      members.set(address.toLowerCase(), { signerId: signer.id, signerName: signer.name })
+    }
+  }
+  return members
+}
+
+/**
+ * Every department with its signer count and how many Safes it reaches or controls alone
+ */
+export async function getDepartmentSummaries(): Promise<DepartmentSummary[]> {
+  const [departments, wallets] = await Promise.all([
+    db.department.findMany({
+      include: { signers: { where: { deletedAt: null }, include: { addresses: { select: { address: true } } } } },
+      orderBy: { name: 'asc' },
+    }),
+    loadOwnershipWallets(),
+  ])
+
+  return departments.map((department) => {
+    const safes = getDepartmentSafes(wallets, memberAddressMap(department.signers))
+    return {
+      id: department.id,
+      name: department.name,
+      description: department.description,
+      signerCount: department.signers.length,
+      safeCount: safes.length,
+      soleControlCount: safes.filter((safe) => safe.canMeetThreshold).length,
+    }
+  })
+}
+
+/**
+ * Members, their addresses and the Safes they own, for the department page
+ */
+export async function getDepartmentReport(id: string): Promise<DepartmentReport | null> {
+  const department = await db.department.findUnique({
+    where: { id },
+    include: {
+      signers: {
+        where: { deletedAt: null },
+        include: { addresses: { orderBy: { createdAt: 'asc' } } },
+        orderBy: { name: 'asc' },
+      },
+    },
+  })
+  if (!department) return null
+
+  const safes = getDepartmentSafes(await loadOwnershipWallets(), memberAddressMap(department.signers))
+  // Safes the department can operate alone first
+  safes.sort((a, b) => Number(b.canMeetThreshold === true) - Number(a.canMeetThreshold === true))
+
+  return {
+    id: department.id,
+    name: department.name,
+    description: department.description,
+    members: department.signers.map((signer) => ({
+      id: signer.id,
+      name: signer.name,
+      status: signer.status,
+      addresses: signer.addresses.map((a) => ({ id: a.id, address: a.address, name: a.name, type: a.type })),
+    })),
+    safes,
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Ownership drift detection
+ * Compares the WalletSigner links we store against the owners a Safe has on-chain
+ */
+
+import { db } from './db'
+import type { DriftOwner, WalletDrift } from '@/types'
+
+type WalletWithLinks = {
+  id: string
+  address: string
+  name: string | null
+  chainId: number
+  walletSigners: Array<{
+    id: string
+    signerAddress: {
+      id: string
+      address: string
+      signer: { id: string; name: string; status: string; deletedAt: Date | null }
+    }
+  }>
+}
+
+type KnownSignerAddress = {
+  id: string
+  address: string
+  signer: { id: string; name: string; status: string; deletedAt: Date | null }
+}
+
+/**
+ * Load every signer address keyed by lowercase address, for mapping unlinked owners.
+ * Removed signers are included so their owners can be reported, but are never linked.
+ */
+export async function getSignerAddressMap(): Promise<Map<string, KnownSignerAddress>> {
+  const signerAddresses = await db.signerAddress.findMany({
+    include: { signer: true },
+  })
+
+  const map = new Map<string, KnownSignerAddress>()
+  for (const signerAddress of signerAddresses) {
+    map.set(signerAddress.address.toLowerCase(), signerAddress)
+  }
+  return map
+}
+
+/**
+ * Load a wallet together with its WalletSigner links
+ */
+export async function findWalletWithLinks(id: string) {
+  return db.wallet.findUnique({
+    where: { id },
+    include: {
+      walletSigners: {
+        include: {
+          signerAddress: {
+            include: { signer: true },
+          },
+        },
+      },
+    },
+  })
+}
+
+/**
+ * Compute drift between a wallet's WalletSigner links and a list of on-chain owners
+ */
+export function computeWalletDrift(
+  wallet: WalletWithLinks,
+  onChain: { owners: string[]; threshold: number; fetchedAt: Date } | null,
+  previousThreshold: number | null,
+  signerAddressMap: Map<string, KnownSignerAddress>
+): WalletDrift {
+  if (!onChain) {
+    // Nothing to compare against until the Safe has been fetched at least once
+    return {
+      walletId: wallet.id,
+      address: wallet.address,
+      name: wallet.name,
+      chainId: wallet.chainId,
+      snapshotAt: null,
+      missingLinks: [],
+      staleLinks: [],
+      thresholdChange: null,
+      hasDrift: false,
+    }
+  }
+
+  const ownerSet = new Set(onChain.owners.map((owner) => owner.toLowerCase()))
+  const linkedSet = new Set(
+    wallet.walletSigners.map((link) => link.signerAddress.address.toLowerCase())
+  )
+
+  const missingLinks: DriftOwner[] = onChain.owners
+    .filter((owner) => !linkedSet.has(owner.toLowerCase()))
+    .map((owner) => {
+      const known = signerAddressMap.get(owner.toLowerCase())
+      return {
+        address: owner,
+        signerAddressId: known?.id || null,
+        signerId: known?.signer.id || null,
+        signerName: known?.signer.name || null,
+        signerStatus: known?.signer.status || null,
+        signerDeletedAt: known?.signer.deletedAt || null,
+      }
+    })
+
+  const staleLinks: DriftOwner[] = wallet.walletSigners
+    .filter((link) => !ownerSet.has(link.signerAddress.address.toLowerCase()))
+    .map((link) => ({
+      address: link.signerAddress.address,
+      signerAddressId: link.signerAddress.id,
+      signerId: link.signerAddress.signer.id,
+      signerName: link.signerAddress.signer.name,
+      signerStatus: link.signerAddress.signer.status,
+      signerDeletedAt: link.signerAddress.signer.deletedAt,
+    }))
+
+  const thresholdChange =
+    previousThreshold !== null && previousThreshold !== onChain.threshold
+      ? { previous: previousThreshold, current: onChain.threshold }
+      : null
+
+  return {
+    walletId: wallet.id,
+    address: wallet.address,
+    name: wallet.name,
+    chainId: wallet.chainId,
+    snapshotAt: onChain.fetchedAt,
+    missingLinks,
+    staleLinks,
+    thresholdChange,
+    hasDrift: missingLinks.length > 0 || staleLinks.length > 0 || thresholdChange !== null,
+  }
+}
+
+/**
+ * The threshold a wallet had before its current one, taken from the newest snapshot
+ * with a different threshold. Changes recorded before the wallet's drift was last
+ * acknowledged are ignored, so a change stays reported until someone reconciles it.
+ */
+export async function getPreviousThreshold(
+  wallet: { id: string; driftAcknowledgedAt: Date | null },
+  currentThreshold: number
+): Promise<number | null> {
+  const previous = await db.walletSnapshot.findFirst({
+    where: {
+      walletId: wallet.id,
+      threshold: { not: currentThreshold },
+      ...(wallet.driftAcknowledgedAt ? { fetchedAt: { gt: wallet.driftAcknowledgedAt } } : {}),
+    },
+    orderBy: { fetchedAt: 'desc' },
+    select: { threshold: true },
+  })
+  return previous ? previous.threshold : null
+}
+
+/**
+ * Build a drift report for every wallet from its latest snapshot.
+ * Snapshots are kept fresh by the scheduled refresh job, so this never calls the Safe API.
+ */
+export async function getDriftReport(): Promise<WalletDrift[]> {
+  const [wallets, signerAddressMap] = await Promise.all([
+    db.wallet.findMany({
+      include: {
+        walletSigners: {
+          include: {
+            signerAddress: {
+              include: { signer: true },
+            },
+          },
+        },
+        snapshots: {
+          orderBy: { fetchedAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    getSignerAddressMap(),
+  ])
+
+  return Promise.all(
+    wallets.map(async (wallet) => {
+      const [latest] = wallet.snapshots
+      return computeWalletDrift(
+        wallet,
+        latest ? { owners: latest.owners, threshold: latest.threshold, fetchedAt: latest.fetchedAt } : null,
+        latest ? await getPreviousThreshold(wallet, latest.threshold) : null,
+        signerAddressMap
+      )
+    })
+  )
+}
+
+/**
+ * Rewrite a wallet's WalletSigner links so they match the given on-chain owners.
+ * Owners without a known SignerAddress, or whose signer was removed, are not linked
+ * and are left in missingLinks.
+ */
+export async function reconcileWalletLinks(
+  wallet: WalletWithLinks,
+  owners: string[],
+  signerAddressMap: Map<string, KnownSignerAddress>
+): Promise<{ removed: number; added: number }> {
+  const ownerSet = new Set(owners.map((owner) => owner.toLowerCase()))
+  const linkedSet = new Set(
+    wallet.walletSigners.map((link) => link.signerAddress.address.toLowerCase())
+  )
+
+  const staleLinkIds = wallet.walletSigners
+    .filter((link) => !ownerSet.has(link.signerAddress.address.toLowerCase()))
+    .map((link) => link.id)
+
+  const signerAddressIdsToLink = owners
+    .filter((owner) => !linkedSet.has(owner.toLowerCase()))
+    .map((owner) => signerAddressMap.get(owner.toLowerCase()))
+    .filter((known): known is KnownSignerAddress => !!known && !known.signer.deletedAt)
+    .map((known) => known.id)
+
+  await db.$transaction([
+    db.walletSigner.deleteMany({
+      where: { id: { in: staleLinkIds } },
+    }),
+    db.walletSigner.createMany({
+      data: signerAddressIdsToLink.map((signerAddressId) => ({
+        walletId: wallet.id,
+        signerAddressId,
+      })),
+      skipDuplicates: true,
+    }),
+  ])
+
+  return { removed: staleLinkIds.length, added: signerAddressIdsToLink.length }
+}
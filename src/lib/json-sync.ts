@@ -36,7 +36,9 @@ export async function syncWalletsToJson() {
 export async function syncSignersToJson() {
   try {
     const signers = await db.signer.findMany({
+      where: { deletedAt: null },
       include: {
+        department: { select: { name: true } },
         addresses: {
           orderBy: { createdAt: 'asc' },
         },
@@ -46,7 +48,7 @@ export async function syncSignersToJson() {
 
     const signersJson = signers.map((signer) => ({
       name: signer.name,
-      department: signer.department,
+      department: signer.department?.name ?? null,
       addresses: signer.addresses.map((addr) => addr.address.toLowerCase()),
     }))
 
@@ -0,0 +1,143 @@
+/**
+ * Brute-force protection for password login: failed attempts are counted per
+ * username and per client IP, with exponential backoff and a temporary lockout
+ */
+
+import { db } from './db'
+
+export type ThrottleScope = 'username' | 'ip'
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000 // Failures older than this are forgotten
+const LOCKOUT_MS = 15 * 60 * 1000
+const BACKOFF_FREE_FAILURES = 3 // Typos do not slow anyone down
+const BACKOFF_BASE_MS = 1000
+const BACKOFF_MAX_MS = 60 * 1000
+
+// The IP limit is higher since several people may share an office NAT
+const LOCKOUT_THRESHOLDS: Record<ThrottleScope, number> = {
+  username: 10,
+  ip: 50,
+}
+
+interface ThrottleKey {
+  scope: ThrottleScope
+  key: string
+}
+
+function throttleKeys(username: string, ip: string | null): ThrottleKey[] {
+  const keys: ThrottleKey[] = [{ scope: 'username', key: username.trim().toLowerCase() }]
+  if (ip) keys.push({ scope: 'ip', key: ip })
+  return keys
+}
+
+function backoffMs(failures: number): number {
+  if (failures <= BACKOFF_FREE_FAILURES) return 0
+  return Math.min(BACKOFF_BASE_MS * 2 ** (failures - BACKOFF_FREE_FAILURES - 1), BACKOFF_MAX_MS)
+}
+
+function retryAtMs(row: { failures: number; lastFailedAt: Date; lockedUntil: Date | null }): number {
+  const backoffUntil = row.lastFailedAt.getTime() + backoffMs(row.failures)
+  return Math.max(row.lockedUntil?.getTime() ?? 0, backoffUntil)
+}
+
+/**
+ * Check one counter and, if it allows an attempt, count this one against it. The write
+ * only applies if the row is unchanged since it was read, so concurrent attempts cannot
+ * all pass the same check or overwrite each other's counts; the loser re-reads and is
+ * checked against the updated row. Returns 0 once counted, or when to retry (ms epoch).
+ */
+async function claimAttempt(scope: ThrottleScope, key: string, now: Date): Promise<number> {
+  for (;;) {
+    const existing = await db.loginThrottle.findUnique({ where: { scope_key: { scope, key } } })
+    const stale = !existing || existing.lastFailedAt.getTime() < now.getTime() - FAILURE_WINDOW_MS
+    if (!stale) {
+      const retryAt = retryAtMs(existing)
+      if (retryAt > now.getTime()) return retryAt
+    }
+
+    const failures = stale ? 1 : existing.failures + 1
+    const locked = failures >= LOCKOUT_THRESHOLDS[scope]
+    const lockedUntil = locked ? new Date(now.getTime() + LOCKOUT_MS) : null
+
+    const { count } = existing
+      ? await db.loginThrottle.updateMany({
+          where: { id: existing.id, failures: existing.failures, lastFailedAt: existing.lastFailedAt },
+          data: { failures, lastFailedAt: now, lockedUntil },
+        })
+      : await db.loginThrottle.createMany({
+          data: { scope, key, failures, lastFailedAt: now, lockedUntil },
+          skipDuplicates: true,
+        })
+    if (count === 0) continue
+
+    if (locked) {
+      console.warn(`[Login] 🔒 Locked ${scope} "${key}" for ${LOCKOUT_MS / 60000} minutes after ${failures} failed attempts`)
+    }
+    return 0
+  }
+}
+
+/**
+ * Count a login attempt against the username and the IP before the password is checked.
+ * Returns seconds until another attempt is allowed, or 0 if this one may proceed; every
+ * attempt that proceeds is a failure until `releaseLoginAttempt` says otherwise.
+ */
+export async function beginLoginAttempt(username: string, ip: string | null): Promise<number> {
+  const now = new Date()
+  const keys = throttleKeys(username, ip)
+
+  // Check every counter first so a blocked IP does not also use up a username attempt
+  const rows = await db.loginThrottle.findMany({ where: { OR: keys } })
+  let retryAt = 0
+  for (const row of rows) {
+    if (row.lastFailedAt.getTime() < now.getTime() - FAILURE_WINDOW_MS) continue
+    retryAt = Math.max(retryAt, retryAtMs(row))
+  }
+
+  for (const { scope, key } of keys) {
+    if (retryAt > now.getTime()) break
+    retryAt = Math.max(retryAt, await claimAttempt(scope, key, now))
+  }
+
+  return retryAt > now.getTime() ? Math.ceil((retryAt - now.getTime()) / 1000) : 0
+}
+
+/**
+ * Take back an attempt that turned out not to be a failure (correct password)
+ */
+export async function releaseLoginAttempt(username: string, ip: string | null): Promise<void> {
+  await db.loginThrottle.updateMany({
+    where: { OR: throttleKeys(username, ip), failures: { gt: 0 } },
+    data: { failures: { decrement: 1 } },
+  })
+}
+
+/**
+ * Forget failures for a username after a successful login. The IP counter is kept,
+ * otherwise logging into one's own account would reset it between guesses.
+ */
+export async function clearUsernameFailures(username: string): Promise<void> {
+  await db.loginThrottle.deleteMany({
+    where: { scope: 'username', key: username.trim().toLowerCase() },
+  })
+}
+
+/**
+ * Usernames and IPs currently locked out
+ */
+export async function listActiveLockouts() {
+  return db.loginThrottle.findMany({
+    where: { lockedUntil: { gt: new Date() } },
+    orderBy: { lockedUntil: 'desc' },
+  })
+}
+
+/**
+ * Lift a lockout early (admin action). Returns the cleared entry, or null if not found.
+ */
+export async function clearLockout(id: string) {
+  const existing = await db.loginThrottle.findUnique({ where: { id } })
+  if (!existing) return null
+  await db.loginThrottle.delete({ where: { id } })
+  return existing
+}
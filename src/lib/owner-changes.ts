@@ -0,0 +1,184 @@
+/**
+ * Plans for changing a signer's ownership across every Safe they sign on
+ * (offboarding via removeOwner, key rotation via swapOwner), grouped per chain
+ * with Transaction Builder batches
+ */
+
+import { getAddress } from 'ethers'
+import { db } from './db'
+import { getSafesByOwner, type SafeWithThreshold } from './safeApi'
+import { planOwnerRemovals, buildTxBuilderBatch, getPrevOwner, encodeSwapOwner } from './safe-tx-builder'
+import { invalidateSafeApiCache } from './safe-cache'
+import type { FailedChainLookup, OwnerChangeChainPlan, OwnerChangeSafePlan } from '@/types'
+
+export interface OwnedSafe extends SafeWithThreshold {
+  chainId: number
+  affectedOwners: string[] // Which of the looked-up addresses are owners of this Safe
+}
+
+/**
+ * Find every Safe, across all supported chains, where any of the given addresses is an owner.
+ * Chains whose lookup failed are returned in `failedChains`. Pass `fresh` when building
+ * owner-change calldata: prevOwner and the threshold must match the Safe's current owners,
+ * so cached owner lookups are dropped first.
+ */
+export async function findSafesOwnedBy(
+  addresses: string[],
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<{ safes: OwnedSafe[]; failedChains: FailedChainLookup[] }> {
+  const lookup = new Set(addresses.map((a) => a.toLowerCase()))
+  const safes = new Map<string, OwnedSafe>()
+  const failedChains: FailedChainLookup[] = []
+
+  if (fresh) {
+    await invalidateSafeApiCache(...addresses)
+  }
+
+  // Addresses run concurrently; the Safe API client enforces the shared request budget
+  const results = await Promise.all(addresses.map((address) => getSafesByOwner(address)))
+
+  results.forEach(({ safesByChain, chains }, index) => {
+    for (const [chainIdStr, status] of Object.entries(chains)) {
+      if (status.status === 'error') {
+        failedChains.push({
+          address: addresses[index],
+          chainId: parseInt(chainIdStr, 10),
+          error: status.message || 'Unknown error',
+        })
+      }
+    }
+
+    for (const [chainIdStr, chainSafes] of Object.entries(safesByChain)) {
+      const chainId = parseInt(chainIdStr, 10)
+      for (const safe of chainSafes) {
+        const key = `${safe.address.toLowerCase()}-${chainId}`
+        if (!safes.has(key)) {
+          safes.set(key, {
+            ...safe,
+            chainId,
+            affectedOwners: safe.owners.filter((owner) => lookup.has(owner.toLowerCase())),
+          })
+        }
+      }
+    }
+  })
+
+  return { safes: Array.from(safes.values()), failedChains }
+}
+
+/**
+ * Group Safe plans by chain, enriching each with DB wallet name/id where tracked
+ */
+export async function groupPlansByChain(plans: OwnerChangeSafePlan[]): Promise<OwnerChangeChainPlan[]> {
+  const wallets = await db.wallet.findMany()
+  const walletMap = new Map<string, typeof wallets[number]>()
+  for (const w of wallets) {
+    walletMap.set(`${w.address.toLowerCase()}-${w.chainId}`, w)
+  }
+
+  const byChain = new Map<number, OwnerChangeSafePlan[]>()
+  for (const plan of plans) {
+    const dbWallet = walletMap.get(`${plan.address.toLowerCase()}-${plan.chainId}`)
+    const enriched = {
+      ...plan,
+      walletId: dbWallet?.id || null,
+      name: dbWallet?.name || plan.name,
+    }
+    byChain.set(plan.chainId, [...(byChain.get(plan.chainId) || []), enriched])
+  }
+
+  return Array.from(byChain.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([chainId, safes]) => ({ chainId, safes }))
+}
+
+/**
+ * Build the removeOwner plan for offboarding every address of a signer
+ */
+export function buildOffboardingSafePlan(safe: OwnedSafe, signerName: string): OwnerChangeSafePlan {
+  const removal = planOwnerRemovals(safe.owners, safe.threshold, safe.affectedOwners)
+
+  const steps = removal.steps.map((step) => ({
+    method: 'removeOwner' as const,
+    args: { prevOwner: step.prevOwner, owner: step.owner, _threshold: step.threshold },
+    data: step.data,
+  }))
+
+  return {
+    walletId: null,
+    address: safe.address,
+    name: safe.name,
+    chainId: safe.chainId,
+    owners: safe.owners,
+    threshold: safe.threshold,
+    nonce: safe.nonce,
+    newThreshold: removal.newThreshold,
+    affectedOwners: safe.affectedOwners,
+    steps,
+    blockedReason: removal.blockedReason,
+    batch: removal.blockedReason
+      ? null
+      : buildTxBuilderBatch(
+          safe.chainId,
+          safe.address,
+          `Offboard ${signerName}`,
+          `Remove ${safe.affectedOwners.join(', ')} as owner(s); threshold ${safe.threshold} → ${removal.newThreshold}. Built at nonce ${safe.nonce}`,
+          steps.map((step) => step.data)
+        ),
+  }
+}
+
+/**
+ * Build the swapOwner plan for replacing `oldAddress` with `newAddress` on a Safe.
+ * Owner count and threshold are unchanged by a swap.
+ */
+export function buildRotationSafePlan(
+  safe: OwnedSafe,
+  oldAddress: string,
+  newAddress: string,
+  signerName: string
+): OwnerChangeSafePlan {
+  const base = {
+    walletId: null,
+    address: safe.address,
+    name: safe.name,
+    chainId: safe.chainId,
+    owners: safe.owners,
+    threshold: safe.threshold,
+    nonce: safe.nonce,
+    newThreshold: safe.threshold,
+    affectedOwners: safe.affectedOwners,
+  }
+
+  if (safe.owners.some((owner) => owner.toLowerCase() === newAddress.toLowerCase())) {
+    return {
+      ...base,
+      steps: [],
+      blockedReason: 'The new address is already an owner of this Safe. Offboard the old address instead.',
+      batch: null,
+    }
+  }
+
+  const prevOwner = getPrevOwner(safe.owners, oldAddress)
+  const data = encodeSwapOwner(prevOwner, oldAddress, newAddress)
+  const steps = [
+    {
+      method: 'swapOwner' as const,
+      args: { prevOwner, oldOwner: getAddress(oldAddress), newOwner: getAddress(newAddress) },
+      data,
+    },
+  ]
+
+  return {
+    ...base,
+    steps,
+    blockedReason: null,
+    batch: buildTxBuilderBatch(
+      safe.chainId,
+      safe.address,
+      `Rotate ${signerName} key`,
+      `Swap owner ${getAddress(oldAddress)} → ${getAddress(newAddress)}. Built at nonce ${safe.nonce}`,
+      [data]
+    ),
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Persisted multisig confirmations from executed Safe transactions, used to
+ * report per-signer participation and flag dormant signers
+ */
+
+import { getAddress } from 'ethers'
+import { db } from './db'
+import { getTransactionHistory, type ExecutedTransaction } from './safeApi'
+import { processInBatches } from './rate-limiter'
+import type { ParticipationReport, SignerParticipation } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SYNC_PAGE_SIZE = 100
+const SYNC_MAX_PAGES = 10
+
+export interface SyncConfirmationsResult {
+  synced: number
+  recorded: number
+  failed: Array<{
+    walletId: string
+    address: string
+    chainId: number
+    error: string
+  }>
+}
+
+/**
+ * Dormancy window in days, from DORMANT_SIGNER_DAYS (default 90)
+ */
+export function getDormantDays(): number {
+  const days = parseInt(process.env.DORMANT_SIGNER_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : 90
+}
+
+/**
+ * Store the confirmations of executed multisig transactions. Already stored rows are skipped.
+ */
+async function recordConfirmations(walletId: string, transactions: ExecutedTransaction[]): Promise<number> {
+  const rows = transactions.flatMap((tx) =>
+    tx.txType === 'MULTISIG_TRANSACTION' && tx.safeTxHash
+      ? tx.confirmations.map((c) => ({
+          walletId,
+          safeTxHash: tx.safeTxHash as string,
+          txHash: tx.txHash,
+          nonce: tx.nonce ?? 0,
+          owner: getAddress(c.owner),
+          confirmedAt: new Date(c.submissionDate),
+          executedAt: tx.executionDate ? new Date(tx.executionDate) : null,
+        }))
+      : []
+  )
+
+  if (rows.length === 0) return 0
+
+  const result = await db.transactionConfirmation.createMany({
+    data: rows,
+    skipDuplicates: true,
+  })
+  return result.count
+}
+
+type SyncWallet = {
+  id: string
+  address: string
+  chainId: number
+  confirmationsBackfillOffset: number
+  confirmationsBackfilledAt: Date | null
+  confirmationsSyncedCount: number
+}
+
+/**
+ * Read up to SYNC_MAX_PAGES of a wallet's executed history from where the last run stopped,
+ * and mark the backfill complete once the oldest transaction is stored. New transactions only
+ * push older ones to higher offsets, so resuming from a stored offset never skips any.
+ */
+async function backfillWalletConfirmations(wallet: SyncWallet): Promise<number> {
+  let offset = wallet.confirmationsBackfillOffset
+  let syncedCount = wallet.confirmationsSyncedCount
+  let recorded = 0
+  let complete = false
+  for (let page = 0; page < SYNC_MAX_PAGES; page++) {
+    const history = await getTransactionHistory(wallet.address, wallet.chainId, SYNC_PAGE_SIZE, offset)
+    // The backfill covers everything up to the newest transaction at its start; the incremental sync takes over above it
+    if (offset === 0) syncedCount = history.count
+    recorded += await recordConfirmations(wallet.id, history.transactions)
+    offset += history.transactions.length
+
+    if (!history.hasMore) {
+      complete = true
+      break
+    }
+  }
+
+  await db.wallet.update({
+    where: { id: wallet.id },
+    data: complete
+      ? { confirmationsBackfilledAt: new Date(), confirmationsBackfillOffset: 0, confirmationsSyncedCount: syncedCount }
+      : { confirmationsBackfillOffset: offset, confirmationsSyncedCount: syncedCount },
+  })
+
+  return recorded
+}
+
+/**
+ * Store the executed transactions added since the last sync, up to SYNC_MAX_PAGES per run.
+ * History is read newest first, so an item's position counted from the oldest is `count - offset`;
+ * the wallet keeps how many positions are stored and pages climb from just above that cursor,
+ * advancing it after every page. A run that stops early leaves no gap and the next one resumes.
+ * Until the wallet's full history has been backfilled the cursor means nothing, so the backfill
+ * continues instead.
+ */
+export async function syncWalletConfirmations(wallet: SyncWallet): Promise<number> {
+  if (!wallet.confirmationsBackfilledAt) {
+    return backfillWalletConfirmations(wallet)
+  }
+
+  let syncedCount = wallet.confirmationsSyncedCount
+  let recorded = 0
+  let offset = 0
+  for (let page = 0; page < SYNC_MAX_PAGES; page++) {
+    const history = await getTransactionHistory(wallet.address, wallet.chainId, SYNC_PAGE_SIZE, offset)
+    const top = history.count - offset
+    const bottom = top - history.transactions.length
+
+    if (bottom > syncedCount) {
+      // This page is above the stored history: jump to the page just above the cursor instead
+      offset = Math.max(0, history.count - syncedCount - SYNC_PAGE_SIZE)
+      continue
+    }
+
+    recorded += await recordConfirmations(wallet.id, history.transactions.slice(0, Math.max(0, top - syncedCount)))
+    if (top > syncedCount) {
+      syncedCount = top
+      await db.wallet.update({
+        where: { id: wallet.id },
+        data: { confirmationsSyncedCount: syncedCount },
+      })
+    }
+
+    if (offset === 0) break
+    offset = Math.max(0, offset - SYNC_PAGE_SIZE)
+  }
+
+  return recorded
+}
+
+/**
+ * Sync confirmations for every tracked wallet. Used by the cron job.
+ */
+export async function syncAllConfirmations(): Promise<SyncConfirmationsResult> {
+  const wallets = await db.wallet.findMany({
+    select: {
+      id: true,
+      address: true,
+      chainId: true,
+      confirmationsBackfillOffset: true,
+      confirmationsBackfilledAt: true,
+      confirmationsSyncedCount: true,
+    },
+  })
+
+  const result: SyncConfirmationsResult = { synced: 0, recorded: 0, failed: [] }
+
+  await processInBatches(
+    wallets,
+    async (wallet) => {
+      try {
+        result.recorded += await syncWalletConfirmations(wallet)
+        result.synced++
+      } catch (error) {
+        result.failed.push({
+          walletId: wallet.id,
+          address: wallet.address,
+          chainId: wallet.chainId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    },
+    3,
+    500
+  )
+
+  return result
+}
+
+/**
+ * Most recent stored confirmation per owner, keyed by lowercase address
+ */
+export async function getLastConfirmationByOwner(): Promise<Map<string, Date>> {
+  const rows = await db.transactionConfirmation.groupBy({
+    by: ['owner'],
+    _max: { confirmedAt: true },
+  })
+
+  const lastConfirmed = new Map<string, Date>()
+  for (const row of rows) {
+    if (row._max.confirmedAt) lastConfirmed.set(row.owner.toLowerCase(), row._max.confirmedAt)
+  }
+  return lastConfirmed
+}
+
+/**
+ * Per-signer confirmation counts for the last 30/90 days, from stored confirmations only
+ */
+export async function getParticipationReport(dormantDays: number = getDormantDays()): Promise<ParticipationReport> {
+  const now = Date.now()
+  const since30 = new Date(now - 30 * DAY_MS)
+  const since90 = new Date(now - 90 * DAY_MS)
+  const dormantSince = new Date(now - dormantDays * DAY_MS)
+
+  const [signers, lastConfirmed, recent, lastSynced, backfillPendingWallets] = await Promise.all([
+    db.signer.findMany({
+      where: { deletedAt: null },
+      include: { department: { select: { name: true } }, addresses: { select: { address: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    getLastConfirmationByOwner(),
+    db.transactionConfirmation.findMany({
+      where: { confirmedAt: { gte: since90 } },
+      select: { owner: true, walletId: true, safeTxHash: true, confirmedAt: true },
+    }),
+    db.transactionConfirmation.aggregate({ _max: { createdAt: true } }),
+    db.wallet.count({ where: { confirmationsBackfilledAt: null } }),
+  ])
+
+  const recentByOwner = new Map<string, typeof recent>()
+  for (const row of recent) {
+    const key = row.owner.toLowerCase()
+    recentByOwner.set(key, [...(recentByOwner.get(key) || []), row])
+  }
+
+  const report: SignerParticipation[] = signers.map((signer) => {
+    const owners = signer.addresses.map((a) => a.address.toLowerCase())
+
+    // A signer confirming the same transaction from two of their addresses counts once
+    const tx30 = new Set<string>()
+    const tx90 = new Set<string>()
+    let lastConfirmedAt: Date | null = null
+
+    for (const owner of owners) {
+      for (const row of recentByOwner.get(owner) || []) {
+        const key = `${row.walletId}-${row.safeTxHash}`
+        tx90.add(key)
+        if (row.confirmedAt >= since30) tx30.add(key)
+      }
+      const last = lastConfirmed.get(owner)
+      if (last && (!lastConfirmedAt || last > lastConfirmedAt)) lastConfirmedAt = last
+    }
+
+    return {
+      signerId: signer.id,
+      signerName: signer.name,
+      department: signer.department?.name ?? null,
+      confirmations30d: tx30.size,
+      confirmations90d: tx90.size,
+      lastConfirmedAt,
+      dormant: !lastConfirmedAt || lastConfirmedAt < dormantSince,
+    }
+  })
+
+  return {
+    generatedAt: new Date(now),
+    dormantDays,
+    lastSyncedAt: lastSynced._max.createdAt,
+    backfillPendingWallets,
+    signers: report,
+  }
+}
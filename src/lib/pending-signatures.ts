@@ -0,0 +1,94 @@
+/**
+ * Aggregate pending multisig transactions awaiting a signer's confirmation
+ * across every Safe they own on every supported chain
+ */
+
+import { db } from './db'
+import { getPendingTransactions } from './safeApi'
+import { processInBatches } from './rate-limiter'
+import { findSafesOwnedBy } from './owner-changes'
+import type { SignerPendingSignatures, SignerPendingTransaction } from '@/types'
+
+/**
+ * Collect transactions none of the signer's addresses has confirmed yet, oldest first.
+ * A Safe whose queue cannot be fetched is reported in `errors` instead of failing the whole view.
+ */
+export async function getSignerPendingSignatures(signer: {
+  id: string
+  name: string
+  addresses: Array<{ address: string }>
+}): Promise<SignerPendingSignatures> {
+  const { safes, failedChains } = await findSafesOwnedBy(signer.addresses.map((a) => a.address))
+
+  const wallets = await db.wallet.findMany({ select: { id: true, address: true, chainId: true, name: true } })
+  const walletMap = new Map(wallets.map((w) => [`${w.address.toLowerCase()}-${w.chainId}`, w]))
+
+  const result: SignerPendingSignatures = {
+    signerId: signer.id,
+    signerName: signer.name,
+    transactions: [],
+    errors: failedChains.map((failure) => ({
+      chainId: failure.chainId,
+      safeAddress: null,
+      error: `Owner lookup for ${failure.address} failed: ${failure.error}`,
+    })),
+  }
+
+  await processInBatches(
+    safes,
+    async (safe) => {
+      let pending
+      try {
+        // Current nonce filters out proposals that were replaced by an executed transaction
+        pending = await getPendingTransactions(safe.address, safe.chainId, safe.nonce)
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        console.error(`[Pending Signatures] ❌ Failed to fetch queue for ${safe.address} on chain ${safe.chainId}: ${errorMessage}`)
+        result.errors.push({ chainId: safe.chainId, safeAddress: safe.address, error: errorMessage })
+        return
+      }
+
+      const dbWallet = walletMap.get(`${safe.address.toLowerCase()}-${safe.chainId}`)
+      const signerOwners = new Set(safe.affectedOwners.map((a) => a.toLowerCase()))
+
+      for (const tx of pending) {
+        if (tx.confirmations.some((c) => signerOwners.has(c.owner.toLowerCase()))) {
+          continue
+        }
+
+        const confirmationsRequired = tx.confirmationsRequired || safe.threshold
+        // Blocked on this signer only when the other owners who have not signed cannot reach the threshold alone
+        const confirmed = new Set(tx.confirmations.map((c) => c.owner.toLowerCase()))
+        const otherUnsignedOwners = safe.owners.filter(
+          (owner) => !confirmed.has(owner.toLowerCase()) && !signerOwners.has(owner.toLowerCase())
+        ).length
+        const stillNeeded = confirmationsRequired - tx.confirmations.length
+        const entry: SignerPendingTransaction = {
+          safeTxHash: tx.safeTxHash,
+          walletId: dbWallet?.id || null,
+          safeAddress: safe.address,
+          safeName: dbWallet?.name || safe.name,
+          chainId: safe.chainId,
+          nonce: tx.nonce,
+          to: tx.to,
+          value: tx.value,
+          method: tx.method,
+          submissionDate: tx.submissionDate,
+          confirmationsRequired,
+          confirmationsCollected: tx.confirmations.length,
+          signerAddresses: safe.affectedOwners,
+          blockedOnSigner: stillNeeded > 0 && otherUnsignedOwners < stillNeeded,
+        }
+        result.transactions.push(entry)
+      }
+    },
+    3,
+    500
+  )
+
+  result.transactions.sort(
+    (a, b) => new Date(a.submissionDate).getTime() - new Date(b.submissionDate).getTime()
+  )
+
+  return result
+}
@@ -0,0 +1,54 @@
+/**
+ * Roles and the permissions they grant
+ * Shared by API routes (via requirePermission) and client pages (to hide actions)
+ */
+
+export const ROLES = ['viewer', 'editor', 'signer-manager', 'admin'] as const
+
+export type Role = (typeof ROLES)[number]
+
+export type Permission =
+  | 'wallet:edit' // Rename wallets and change tags
+  | 'wallet:manage' // Add, delete, move between chains and reconcile wallets
+  | 'signer:manage' // Create, edit and delete signers, their addresses and departments
+  | 'tag:manage' // Create, rename, merge and delete catalog tags
+  | 'user:manage' // Manage users and sessions
+  | 'audit:view' // Read and export the audit log
+
+const ALL_PERMISSIONS: Permission[] = [
+  'wallet:edit',
+  'wallet:manage',
+  'signer:manage',
+  'tag:manage',
+  'user:manage',
+  'audit:view',
+]
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ['wallet:edit'],
+  'signer-manager': ['signer:manage'],
+  admin: ALL_PERMISSIONS,
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  'signer-manager': 'Signer manager',
+  admin: 'Admin',
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Permissions for a stored role; unknown roles get none
+ */
+export function getRolePermissions(role: string): Permission[] {
+  return isRole(role) ? ROLE_PERMISSIONS[role] : []
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission)
+}
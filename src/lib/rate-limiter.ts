@@ -1,6 +1,7 @@
 /**
- * Simple rate limiter to avoid hitting API rate limits
- * Processes requests in batches with delays between batches
+ * Simple rate limiters to avoid hitting API rate limits
+ * - processInBatches: processes requests in batches with delays between batches
+ * - TokenBucket: request budget shared by concurrent callers
  */
 
 export async function processInBatches<T, R>(
@@ -29,3 +30,62 @@ export async function processInBatches<T, R>(
   
   return results
 }
+
+/**
+ * Token bucket shared by callers of one upstream API.
+ * Tokens refill continuously up to `capacity`; `pauseFor` halts everyone (e.g. on Retry-After).
+ */
+export class TokenBucket {
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number
+  ) {
+    this.tokens = capacity
+  }
+
+  /**
+   * Wait for a token. Waiters are served in arrival order.
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take())
+    this.queue = turn.catch(() => undefined)
+    return turn
+  }
+
+  /**
+   * Stop handing out tokens for `ms` milliseconds
+   */
+  pauseFor(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+
+  private refill() {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond)
+    this.lastRefill = now
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now()
+      if (now < this.pausedUntil) {
+        await new Promise(resolve => setTimeout(resolve, this.pausedUntil - now))
+        continue
+      }
+
+      this.refill()
+      if (this.tokens >= 1) {
+        this.tokens -= 1
+        return
+      }
+
+      const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000)
+      await new Promise(resolve => setTimeout(resolve, waitMs))
+    }
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Shared cache for Safe Transaction Service responses
+ * In-memory per instance, optionally backed by Postgres (SAFE_API_CACHE_STORE=postgres)
+ * so serverless instances share entries. Stale entries are served while a refresh runs.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { after, type NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { db } from './db'
+
+export type SafeApiEndpoint = 'safe' | 'owner-safes' | 'queue' | 'history' | 'other'
+
+interface CachePolicy {
+  ttlMs: number // Served as fresh
+  staleMs: number // Served stale (with a background refresh) until this age
+}
+
+const CACHE_POLICIES: Record<SafeApiEndpoint, CachePolicy> = {
+  safe: { ttlMs: 60_000, staleMs: 10 * 60_000 },
+  'owner-safes': { ttlMs: 5 * 60_000, staleMs: 60 * 60_000 },
+  queue: { ttlMs: 30_000, staleMs: 2 * 60_000 },
+  history: { ttlMs: 2 * 60_000, staleMs: 30 * 60_000 },
+  other: { ttlMs: 60_000, staleMs: 5 * 60_000 },
+}
+
+const MAX_MEMORY_ENTRIES = 2000
+
+interface CacheEntry {
+  body: unknown
+  fetchedAt: number
+}
+
+const memory = new Map<string, CacheEntry>()
+const inflight = new Map<string, Promise<unknown>>()
+
+// Oldest cached response served during the current request, for the X-Cache-Age header
+const cacheAgeStorage = new AsyncLocalStorage<{ maxAgeMs: number | null }>()
+
+function isPostgresStoreEnabled(): boolean {
+  return process.env.SAFE_API_CACHE_STORE?.trim().toLowerCase() === 'postgres'
+}
+
+/**
+ * Classify a Safe API URL to pick its cache policy
+ */
+export function getSafeApiEndpoint(url: string): SafeApiEndpoint {
+  const path = new URL(url).pathname
+  if (path.includes('/owners/')) return 'owner-safes'
+  if (path.includes('/multisig-transactions/')) return 'queue'
+  if (path.includes('/all-transactions/')) return 'history'
+  if (/\/api\/v1\/safes\/0x[a-fA-F0-9]{40}\/$/.test(path)) return 'safe'
+  return 'other'
+}
+
+function setMemoryEntry(key: string, entry: CacheEntry) {
+  memory.delete(key)
+  memory.set(key, entry)
+  // Map keeps insertion order, so the first key is the least recently written
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    const oldest = memory.keys().next().value
+    if (oldest !== undefined) memory.delete(oldest)
+  }
+}
+
+async function readEntry(key: string): Promise<CacheEntry | null> {
+  const cached = memory.get(key)
+  if (cached || !isPostgresStoreEnabled()) return cached || null
+
+  try {
+    const row = await db.safeApiCacheEntry.findUnique({ where: { key } })
+    if (!row) return null
+    const entry = { body: row.body, fetchedAt: row.fetchedAt.getTime() }
+    setMemoryEntry(key, entry)
+    return entry
+  } catch (error) {
+    console.error('[Safe API Cache] Failed to read from Postgres:', error)
+    return null
+  }
+}
+
+async function writeEntry(key: string, endpoint: SafeApiEndpoint, entry: CacheEntry) {
+  setMemoryEntry(key, entry)
+  if (!isPostgresStoreEnabled()) return
+
+  try {
+    const body = entry.body as Prisma.InputJsonValue
+    const fetchedAt = new Date(entry.fetchedAt)
+    await db.safeApiCacheEntry.upsert({
+      where: { key },
+      create: { key, endpoint, body, fetchedAt },
+      update: { body, fetchedAt },
+    })
+  } catch (error) {
+    console.error('[Safe API Cache] Failed to write to Postgres:', error)
+  }
+}
+
+/**
+ * Fetch once per key at a time; concurrent callers share the same request
+ */
+function refresh<T>(key: string, endpoint: SafeApiEndpoint, fetcher: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key)
+  if (pending) return pending as Promise<T>
+
+  const promise = fetcher()
+    .then(async (body) => {
+      await writeEntry(key, endpoint, { body, fetchedAt: Date.now() })
+      return body
+    })
+    .finally(() => inflight.delete(key))
+
+  inflight.set(key, promise)
+  return promise
+}
+
+function recordAge(ageMs: number) {
+  const tracker = cacheAgeStorage.getStore()
+  if (tracker && (tracker.maxAgeMs === null || ageMs > tracker.maxAgeMs)) {
+    tracker.maxAgeMs = ageMs
+  }
+}
+
+/**
+ * Serve a Safe API response from cache. Errors are never cached.
+ */
+export async function cachedSafeApiFetch<T>(url: string, fetcher: () => Promise<T>): Promise<T> {
+  const endpoint = getSafeApiEndpoint(url)
+  const policy = CACHE_POLICIES[endpoint]
+  const key = `${endpoint}|${url}`
+
+  const entry = await readEntry(key)
+  if (entry) {
+    const ageMs = Date.now() - entry.fetchedAt
+    if (ageMs < policy.ttlMs) {
+      recordAge(ageMs)
+      return entry.body as T
+    }
+    if (ageMs < policy.staleMs) {
+      recordAge(ageMs)
+      const revalidate = () =>
+        refresh(key, endpoint, fetcher).catch((error) => {
+          console.warn(`[Safe API Cache] Background refresh failed for ${url}:`, error instanceof Error ? error.message : error)
+        })
+      try {
+        // Keep the function alive after the response is sent
+        after(revalidate)
+      } catch {
+        // Outside a request scope (e.g. scripts) - just fire and forget
+        void revalidate()
+      }
+      return entry.body as T
+    }
+  }
+
+  const body = await refresh(key, endpoint, fetcher)
+  recordAge(0)
+  return body
+}
+
+/**
+ * Drop cached responses for the given Safe or owner addresses (call after admin edits)
+ */
+export async function invalidateSafeApiCache(...addresses: string[]): Promise<void> {
+  const needles = addresses.filter(Boolean).map((a) => a.toLowerCase())
+  if (needles.length === 0) return
+
+  for (const key of Array.from(memory.keys())) {
+    const lower = key.toLowerCase()
+    if (needles.some((needle) => lower.includes(needle))) memory.delete(key)
+  }
+
+  if (!isPostgresStoreEnabled()) return
+
+  try {
+    await db.safeApiCacheEntry.deleteMany({
+      where: {
+        OR: needles.map((needle) => ({ key: { contains: needle, mode: 'insensitive' as const } })),
+      },
+    })
+  } catch (error) {
+    console.error('[Safe API Cache] Failed to invalidate Postgres entries:', error)
+  }
+}
+
+/**
+ * Start tracking cache age for the current request. Call at the top of a route handler.
+ */
+export function trackSafeApiCache() {
+  cacheAgeStorage.enterWith({ maxAgeMs: null })
+}
+
+/**
+ * Run `fn` with its own cache age tracking, for work outside a route handler such as cron batches
+ */
+export function withSafeApiCacheTracking<T>(fn: () => Promise<T>): Promise<T> {
+  return cacheAgeStorage.run({ maxAgeMs: null }, fn)
+}
+
+/**
+ * When the oldest Safe API response used by this request was fetched, or now if none came from cache
+ */
+export function getSafeApiFetchedAt(): Date {
+  const ageMs = cacheAgeStorage.getStore()?.maxAgeMs ?? 0
+  return new Date(Date.now() - ageMs)
+}
+
+/**
+ * Set `X-Cache-Age` (seconds) to the age of the oldest cached Safe API response used by this request
+ */
+export function withCacheAge<T extends NextResponse>(response: T): T {
+  const tracker = cacheAgeStorage.getStore()
+  if (tracker && tracker.maxAgeMs !== null) {
+    response.headers.set('X-Cache-Age', String(Math.floor(tracker.maxAgeMs / 1000)))
+  }
+  return response
+}
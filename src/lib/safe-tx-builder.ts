@@ -0,0 +1,160 @@
+/**
+ * Safe owner-management call data and Safe Transaction Builder batch export
+ * Owners on a Safe are stored as a linked list, so removeOwner/swapOwner need the
+ * owner that points to the target (prevOwner), or the sentinel for the first owner
+ */
+
+import { Interface, getAddress } from 'ethers'
+
+export const SENTINEL_OWNERS = '0x0000000000000000000000000000000000000001'
+
+const OWNER_MANAGER_INTERFACE = new Interface([
+  'function removeOwner(address prevOwner, address owner, uint256 _threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+])
+
+export interface TxBuilderTransaction {
+  to: string
+  value: string
+  data: string
+  contractMethod: null
+  contractInputsValues: null
+}
+
+/**
+ * Batch file format accepted by the Safe{Wallet} Transaction Builder "Import" action
+ */
+export interface TxBuilderBatch {
+  version: '1.0'
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+    txBuilderVersion: string
+    createdFromSafeAddress: string
+    createdFromOwnerAddress: string
+  }
+  transactions: TxBuilderTransaction[]
+}
+
+export interface OwnerRemovalStep {
+  prevOwner: string
+  owner: string
+  threshold: number
+  data: string
+}
+
+export interface OwnerRemovalPlan {
+  steps: OwnerRemovalStep[]
+  remainingOwners: string[]
+  newThreshold: number
+  blockedReason: string | null // Set when the removals cannot be executed safely
+}
+
+/**
+ * Get the owner that points to `owner` in the Safe's owner linked list
+ */
+export function getPrevOwner(owners: string[], owner: string): string {
+  const index = owners.findIndex((o) => o.toLowerCase() === owner.toLowerCase())
+  if (index === -1) {
+    throw new Error(`${owner} is not an owner of this Safe`)
+  }
+  return index === 0 ? SENTINEL_OWNERS : getAddress(owners[index - 1])
+}
+
+export function encodeRemoveOwner(prevOwner: string, owner: string, threshold: number): string {
+  return OWNER_MANAGER_INTERFACE.encodeFunctionData('removeOwner', [
+    getAddress(prevOwner),
+    getAddress(owner),
+    threshold,
+  ])
+}
+
+export function encodeSwapOwner(prevOwner: string, oldOwner: string, newOwner: string): string {
+  return OWNER_MANAGER_INTERFACE.encodeFunctionData('swapOwner', [
+    getAddress(prevOwner),
+    getAddress(oldOwner),
+    getAddress(newOwner),
+  ])
+}
+
+/**
+ * Plan the removeOwner calls needed to drop `toRemove` from a Safe.
+ * Calls are applied in order, so each prevOwner is computed against the owner list
+ * as it will look after the previous removals. The threshold is only lowered when
+ * there would otherwise be fewer owners than the current threshold.
+ */
+export function planOwnerRemovals(
+  owners: string[],
+  threshold: number,
+  toRemove: string[]
+): OwnerRemovalPlan {
+  const removeSet = new Set(toRemove.map((o) => o.toLowerCase()))
+  const remainingOwners = owners.filter((o) => !removeSet.has(o.toLowerCase()))
+
+  if (remainingOwners.length === 0) {
+    return {
+      steps: [],
+      remainingOwners: owners,
+      newThreshold: threshold,
+      blockedReason: 'Removing these addresses would leave the Safe with no owners. Add a replacement owner first.',
+    }
+  }
+
+  const steps: OwnerRemovalStep[] = []
+  let currentOwners = [...owners]
+
+  for (const owner of owners.filter((o) => removeSet.has(o.toLowerCase()))) {
+    const prevOwner = getPrevOwner(currentOwners, owner)
+    currentOwners = currentOwners.filter((o) => o.toLowerCase() !== owner.toLowerCase())
+    const stepThreshold = Math.min(threshold, currentOwners.length)
+
+    steps.push({
+      prevOwner,
+      owner: getAddress(owner),
+      threshold: stepThreshold,
+      data: encodeRemoveOwner(prevOwner, owner, stepThreshold),
+    })
+  }
+
+  return {
+    steps,
+    remainingOwners,
+    newThreshold: Math.min(threshold, remainingOwners.length),
+    blockedReason: null,
+  }
+}
+
+/**
+ * Build a Transaction Builder batch of self-calls on a Safe.
+ * A batch is executed by a single Safe, so each Safe gets its own batch.
+ */
+export function buildTxBuilderBatch(
+  chainId: number,
+  safeAddress: string,
+  name: string,
+  description: string,
+  callData: string[]
+): TxBuilderBatch {
+  const safe = getAddress(safeAddress)
+  return {
+    version: '1.0',
+    chainId: String(chainId),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: safe,
+      createdFromOwnerAddress: '',
+    },
+    transactions: callData.map((data) => ({
+      to: safe,
+      value: '0',
+      data,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  }
+}
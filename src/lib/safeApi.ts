@@ -1,16 +1,20 @@
 /**
  * Centralized Safe Transaction Service API client
- * Handles API key authentication, retries, and rate limiting
+ * Handles API key authentication, retries, caching and rate limiting
  */
 
 import { getAddress } from 'ethers'
 import { 
   getChainById, 
   SUPPORTED_CHAINS, 
+  type Chain,
   getSafeApiCodeFromChainId,
   getSafeApiCodeFromChainName,
   getSafeApiUrlForNetwork 
 } from './chains'
+import { cachedSafeApiFetch } from './safe-cache'
+import { TokenBucket } from './rate-limiter'
+import type { ChainLookupStatus } from '@/types'
 
 export interface SafeInfo {
   address: string
@@ -27,45 +31,157 @@ export interface SafeWithThreshold {
   address: string
   threshold: number
   totalOwners: number
+  owners: string[] // Checksummed, in the Safe's linked-list order
+  nonce: number
   name: string | null
 }
 
+export interface PendingTransaction {
+  safeTxHash: string
+  nonce: number
+  to: string
+  value: string // Wei, as a decimal string
+  data: string | null
+  operation: number // 0 = CALL, 1 = DELEGATECALL
+  method: string | null // Decoded method name, when the Safe API could decode the call data
+  submissionDate: string
+  confirmationsRequired: number
+  confirmations: Array<{
+    owner: string
+    submissionDate: string
+  }>
+}
+
+interface MultisigTransactionsResponse {
+  results: Array<{
+    safeTxHash: string
+    nonce: number
+    to: string
+    value: string
+    data: string | null
+    operation: number
+    submissionDate: string
+    confirmationsRequired: number | null
+    confirmations: Array<{
+      owner: string
+      submissionDate: string
+    }> | null
+    dataDecoded: { method: string } | null
+  }>
+}
+
+export interface ExecutedTransaction {
+  txType: 'MULTISIG_TRANSACTION' | 'MODULE_TRANSACTION' | 'ETHEREUM_TRANSACTION'
+  txHash: string | null
+  safeTxHash: string | null // Multisig transactions only
+  nonce: number | null // Multisig transactions only
+  to: string | null
+  value: string | null // Wei, as a decimal string
+  method: string | null
+  executionDate: string | null
+  isSuccessful: boolean | null
+  confirmations: Array<{
+    owner: string
+    submissionDate: string
+  }>
+}
+
+interface AllTransactionsResponse {
+  count: number
+  next: string | null
+  results: Array<{
+    txType: ExecutedTransaction['txType']
+    safeTxHash?: string
+    nonce?: number | string
+    to?: string | null
+    value?: string | null
+    transactionHash?: string | null
+    txHash?: string | null
+    executionDate?: string | null
+    isSuccessful?: boolean | null
+    dataDecoded?: { method: string } | null
+    confirmations?: Array<{
+      owner: string
+      submissionDate: string
+    }> | null
+  }>
+}
+
 interface OwnerSafesResponse {
   results: Array<{
     address: string
     threshold: number
     owners: string[]
+    nonce?: number | string
   }>
 }
 
 /**
- * Fetch with retry logic
+ * Global request budget for the Safe Transaction Service, shared by every call in this module.
+ * SAFE_API_RATE_LIMIT requests/second (default 5) with bursts up to SAFE_API_BURST (default 10).
+ */
+function createSafeApiBucket(): TokenBucket {
+  const rate = parseFloat(process.env.SAFE_API_RATE_LIMIT || '')
+  const burst = parseInt(process.env.SAFE_API_BURST || '', 10)
+  return new TokenBucket(
+    Number.isFinite(burst) && burst > 0 ? burst : 10,
+    Number.isFinite(rate) && rate > 0 ? rate : 5
+  )
+}
+
+const safeApiBucket = createSafeApiBucket()
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Fetch through the shared Safe API cache, falling back to the network with retries
  */
 async function fetchWithRetry<T>(
   url: string,
   headers: Record<string, string>,
   maxRetries: number = 3,
   retryDelay: number = 1000
+): Promise<T> {
+  return cachedSafeApiFetch(url, () => fetchFromSafeApi<T>(url, headers, maxRetries, retryDelay))
+}
+
+/**
+ * Fetch with retry logic
+ */
+async function fetchFromSafeApi<T>(
+  url: string,
+  headers: Record<string, string>,
+  maxRetries: number = 3,
+  retryDelay: number = 1000
 ): Promise<T> {
   let lastError: Error | null = null
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
+      await safeApiBucket.acquire()
       const response = await fetch(url, {
         headers: {
           ...headers,
           'Content-Type': 'application/json',
         },
-        next: { revalidate: 0 }, // Always fetch fresh data
+        next: { revalidate: 0 }, // Caching is handled by safe-cache
       })
 
       if (response.status === 429) {
-        // Rate limited - wait and retry
-        const retryAfter = response.headers.get('Retry-After')
-        const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : retryDelay * (attempt + 1)
-        
+        // Rate limited - pause every caller, then retry once the bucket reopens
+        const waitTime = parseRetryAfter(response.headers.get('Retry-After')) ?? retryDelay * (attempt + 1)
+        safeApiBucket.pauseFor(waitTime)
+
         if (attempt < maxRetries - 1) {
-          await new Promise(resolve => setTimeout(resolve, waitTime))
           continue
         }
         throw new Error(`Rate limited: Too many requests for ${url}`)
@@ -198,6 +314,31 @@ export async function getSafeInfo(
   return await getSafeInfoFromAllNetworks(checksummedAddress, apiKey)
 }
 
+/**
+ * Get Safe info on exactly the given chain, without falling back to other networks.
+ * Use this whenever the result is written back against a tracked wallet's chain.
+ */
+export async function getSafeInfoOnChain(address: string, chainId: number): Promise<SafeInfo> {
+  const checksummedAddress = getAddress(address)
+  const apiKey = getApiKey()
+
+  // TAC chain (239) does not expose a public Safe API - skip it
+  const apiCode = getSafeApiCodeFromChainId(chainId)
+  if (!apiCode || apiCode === 'tac') {
+    throw new Error(`Safe API is not available for chain ${chainId}`)
+  }
+
+  return getSafeInfoForNetwork(checksummedAddress, apiCode, apiKey)
+}
+
+/**
+ * Whether a Safe API error means the address is not a Safe on the chain that was asked
+ */
+export function isSafeNotFoundError(error: unknown): boolean {
+  const errorMessage = error instanceof Error ? error.message : String(error)
+  return errorMessage.includes('not found') || errorMessage.includes('not a Safe wallet')
+}
+
 /**
  * Get Safe info for a specific network
  */
@@ -285,8 +426,7 @@ async function getSafeInfoFromAllNetworks(
       ) {
         errors.push(`${chain.name}: ${errorMessage}`)
       }
-      // Small delay between networks
-      await new Promise(resolve => setTimeout(resolve, 100))
+      // No delay needed between networks - requests are paced by the shared token bucket
     }
   }
   
@@ -297,54 +437,71 @@ async function getSafeInfoFromAllNetworks(
   throw new Error(`Address is not a Safe wallet on any supported network`)
 }
 
+export interface SafesByOwnerResult {
+  safesByChain: Record<number, SafeWithThreshold[]>
+  chains: Record<number, ChainLookupStatus> // Every chain that was looked at, including failures
+}
+
 /**
- * Get all Safes owned by a specific address across all supported chains
+ * Look up an owner's Safes on the given chains concurrently, within the shared request budget.
+ * A failing chain is reported in `chains` instead of failing the whole lookup.
  */
-export async function getSafesByOwner(owner: string): Promise<Record<number, SafeWithThreshold[]>> {
+async function getSafesByOwnerOnChainList(owner: string, chains: Chain[]): Promise<SafesByOwnerResult> {
   // Checksum the owner address before making API calls
   const checksummedOwner = getAddress(owner)
   const apiKey = getApiKey()
-  const result: Record<number, SafeWithThreshold[]> = {}
+  const result: SafesByOwnerResult = { safesByChain: {}, chains: {} }
 
-  // Process chains sequentially with small delays to avoid rate limiting
-  // Skip TAC chain as it doesn't expose a public Safe API
-  for (const chain of SUPPORTED_CHAINS) {
-    // Skip TAC chain - it doesn't expose a public Safe API
-    if (chain.safeApiCode === 'tac' || chain.id === 239) {
-      continue
-    }
-    
-    try {
-      const url = `${chain.safeApiUrl}/api/v2/owners/${checksummedOwner}/safes/`
-      const data = await fetchWithRetry<OwnerSafesResponse>(url, {
-        Authorization: `Bearer ${apiKey}`,
-      }, 2, 500) // 2 retries, 500ms delay
-
-      if (data.results && data.results.length > 0) {
-        result[chain.id] = data.results.map((safe) => ({
-          address: getAddress(safe.address), // Checksum the address
-          threshold: safe.threshold,
-          totalOwners: safe.owners.length,
-          name: null, // Will be populated from database if available
-        }))
+  await Promise.all(
+    chains.map(async (chain) => {
+      // Skip TAC chain - it doesn't expose a public Safe API
+      if (chain.safeApiCode === 'tac' || chain.id === 239) {
+        result.chains[chain.id] = { status: 'skipped', message: 'No public Safe API on this chain' }
+        return
       }
-    } catch (error: any) {
-      // Only log non-404 errors (404 means no safes found, which is normal)
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      if (!errorMessage.includes('not found') && !errorMessage.includes('404')) {
-        if (process.env.NODE_ENV === 'development') {
-          console.error(`❌ ${chain.name} (${chain.id}): ${errorMessage}`)
+
+      try {
+        const url = `${chain.safeApiUrl}/api/v2/owners/${checksummedOwner}/safes/`
+        const data = await fetchWithRetry<OwnerSafesResponse>(url, {
+          Authorization: `Bearer ${apiKey}`,
+        }, 2, 500) // 2 retries, 500ms delay
+
+        if (data.results && data.results.length > 0) {
+          result.safesByChain[chain.id] = data.results.map((safe) => ({
+            address: getAddress(safe.address), // Checksum the address
+            threshold: safe.threshold,
+            totalOwners: safe.owners.length,
+            owners: safe.owners.map((o) => getAddress(o)),
+            nonce: Number(safe.nonce ?? 0),
+            name: null, // Will be populated from database if available
+          }))
+          result.chains[chain.id] = { status: 'ok' }
+        } else {
+          result.chains[chain.id] = { status: 'empty' }
         }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        // 404 means the owner has no Safes on this chain, which is normal
+        if (errorMessage.includes('not found') || errorMessage.includes('404')) {
+          result.chains[chain.id] = { status: 'empty' }
+          return
+        }
+        console.error(`[Safe API] ❌ Owner lookup failed on ${chain.name} (${chain.id}): ${errorMessage}`)
+        result.chains[chain.id] = { status: 'error', message: errorMessage }
       }
-    }
-    
-    // Small delay between chains to avoid rate limiting
-    await new Promise(resolve => setTimeout(resolve, 100))
-  }
+    })
+  )
 
   return result
 }
 
+/**
+ * Get all Safes owned by a specific address across all supported chains
+ */
+export async function getSafesByOwner(owner: string): Promise<SafesByOwnerResult> {
+  return getSafesByOwnerOnChainList(owner, SUPPORTED_CHAINS)
+}
+
 /**
  * Get all Safes owned by a specific address, but only on a subset of chainIds.
  * This is useful to avoid fanning out across every SUPPORTED_CHAINS entry.
@@ -352,57 +509,114 @@ export async function getSafesByOwner(owner: string): Promise<Record<number, Saf
 export async function getSafesByOwnerOnChains(
   owner: string,
   chainIds: number[]
-): Promise<Record<number, SafeWithThreshold[]>> {
-  const checksummedOwner = getAddress(owner)
+): Promise<SafesByOwnerResult> {
+  const uniqueChainIds = Array.from(new Set(chainIds)).filter((id) => Number.isFinite(id))
+  const chains = uniqueChainIds
+    .map((chainId) => getChainById(chainId))
+    .filter((chain): chain is Chain => !!chain)
+
+  return getSafesByOwnerOnChainList(owner, chains)
+}
+
+/**
+ * Get transactions waiting for signatures on a Safe (not yet executed).
+ * Pass the Safe's current nonce to drop stale proposals that can no longer be executed.
+ */
+export async function getPendingTransactions(
+  address: string,
+  chainId: number,
+  currentNonce: number | null = null
+): Promise<PendingTransaction[]> {
+  const checksummedAddress = getAddress(address)
   const apiKey = getApiKey()
-  const result: Record<number, SafeWithThreshold[]> = {}
 
-  const uniqueChainIds = Array.from(new Set(chainIds)).filter((id) => Number.isFinite(id))
+  // TAC chain (239) does not expose a public Safe API - skip it
+  const apiCode = getSafeApiCodeFromChainId(chainId)
+  if (!apiCode || apiCode === 'tac') {
+    throw new Error(`Safe API is not available for chain ${chainId}`)
+  }
 
-  for (const chainId of uniqueChainIds) {
-    // Skip TAC chain - it doesn't expose a public Safe API
-    if (chainId === 239) {
-      continue
-    }
-    
-    const chain = getChainById(chainId)
-    if (!chain) continue
-    
-    // Double-check: skip TAC by API code as well
-    if (chain.safeApiCode === 'tac') {
-      continue
-    }
+  const params = new URLSearchParams({
+    executed: 'false',
+    ordering: 'nonce',
+    limit: '100',
+  })
+  if (currentNonce !== null) {
+    params.set('nonce__gte', String(currentNonce))
+  }
 
-    try {
-      const url = `${chain.safeApiUrl}/api/v2/owners/${checksummedOwner}/safes/`
-      const data = await fetchWithRetry<OwnerSafesResponse>(
-        url,
-        { Authorization: `Bearer ${apiKey}` },
-        2,
-        500
-      )
-
-      if (data.results && data.results.length > 0) {
-        result[chain.id] = data.results.map((safe) => ({
-          address: getAddress(safe.address),
-          threshold: safe.threshold,
-          totalOwners: safe.owners.length,
-          name: null,
-        }))
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      if (!errorMessage.includes('not found') && !errorMessage.includes('404')) {
-        if (process.env.NODE_ENV === 'development') {
-          console.error(`❌ ${chain.name} (${chain.id}): ${errorMessage}`)
-        }
-      }
-    }
+  const url = `${getSafeApiUrlForNetwork(apiCode)}/api/v1/safes/${checksummedAddress}/multisig-transactions/?${params.toString()}`
+  const data = await fetchWithRetry<MultisigTransactionsResponse>(url, {
+    Authorization: `Bearer ${apiKey}`,
+  })
+
+  return (data.results || []).map((tx) => ({
+    safeTxHash: tx.safeTxHash,
+    nonce: Number(tx.nonce),
+    to: getAddress(tx.to),
+    value: tx.value,
+    data: tx.data,
+    operation: tx.operation,
+    method: tx.dataDecoded?.method || null,
+    submissionDate: tx.submissionDate,
+    confirmationsRequired: tx.confirmationsRequired ?? 0,
+    confirmations: (tx.confirmations || []).map((c) => ({
+      owner: getAddress(c.owner),
+      submissionDate: c.submissionDate,
+    })),
+  }))
+}
 
-    await new Promise((resolve) => setTimeout(resolve, 100))
+/**
+ * Get executed transactions of a Safe (multisig, module and incoming), newest first
+ */
+export async function getTransactionHistory(
+  address: string,
+  chainId: number,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ count: number; hasMore: boolean; transactions: ExecutedTransaction[] }> {
+  const checksummedAddress = getAddress(address)
+  const apiKey = getApiKey()
+
+  // TAC chain (239) does not expose a public Safe API - skip it
+  const apiCode = getSafeApiCodeFromChainId(chainId)
+  if (!apiCode || apiCode === 'tac') {
+    throw new Error(`Safe API is not available for chain ${chainId}`)
   }
 
-  return result
+  const params = new URLSearchParams({
+    executed: 'true',
+    queued: 'false',
+    trusted: 'true',
+    limit: String(limit),
+    offset: String(offset),
+  })
+
+  const url = `${getSafeApiUrlForNetwork(apiCode)}/api/v1/safes/${checksummedAddress}/all-transactions/?${params.toString()}`
+  const data = await fetchWithRetry<AllTransactionsResponse>(url, {
+    Authorization: `Bearer ${apiKey}`,
+  })
+
+  return {
+    count: data.count ?? 0,
+    hasMore: !!data.next,
+    transactions: (data.results || []).map((tx) => ({
+      txType: tx.txType,
+      txHash: tx.transactionHash || tx.txHash || null,
+      safeTxHash: tx.safeTxHash || null,
+      nonce: tx.nonce !== undefined ? Number(tx.nonce) : null,
+      to: tx.to ? getAddress(tx.to) : null,
+      value: tx.value ?? null,
+      method: tx.dataDecoded?.method || null,
+      executionDate: tx.executionDate || null,
+      isSuccessful: tx.isSuccessful ?? null,
+      confirmations: (tx.confirmations || []).map((c) => ({
+        owner: getAddress(c.owner),
+        submissionDate: c.submissionDate,
+      })),
+    })),
+  }
 }
 
 /**
@@ -0,0 +1,24 @@
+/**
+ * Signer lifecycle statuses, shared by the signer API and the status badge
+ */
+
+export const SIGNER_STATUSES = ['active', 'on_leave', 'offboarded'] as const
+
+export type SignerStatus = (typeof SIGNER_STATUSES)[number]
+
+export const SIGNER_STATUS_LABELS: Record<SignerStatus, string> = {
+  active: 'Active',
+  on_leave: 'On leave',
+  offboarded: 'Offboarded',
+}
+
+// Full class names so Tailwind keeps them in the build
+export const SIGNER_STATUS_CLASSES: Record<SignerStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  on_leave: 'bg-yellow-100 text-yellow-800',
+  offboarded: 'bg-red-100 text-red-800',
+}
+
+export function isSignerStatus(value: string): value is SignerStatus {
+  return (SIGNER_STATUSES as readonly string[]).includes(value)
+}
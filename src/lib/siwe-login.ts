@@ -0,0 +1,234 @@
+/**
+ * Server side of Sign-In with Ethereum: nonce issuance and mapping a verified
+ * address to a User, or automatically to a Signer via SignerAddress
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { getAddress, verifyMessage } from 'ethers'
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { getSessionSecret, hashPassword, revokeUserSessions } from './auth'
+import { isRole, type Role } from './permissions'
+import { parseSiweMessage } from './siwe'
+
+const NONCE_TTL_MS = 10 * 60 * 1000 // 10 minutes
+
+export type SiweLoginResult =
+  | { userId: string }
+  | { error: string; status: number }
+
+function signNonce(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(`siwe-nonce:${payload}`).digest('hex').slice(0, 32)
+}
+
+/**
+ * Issue a nonce without storing anything: 16 random bytes and the expiry (unix seconds),
+ * followed by an HMAC over both. All hex, so it is a valid EIP-4361 nonce. Nonces are only
+ * written to the database once consumed, so this unauthenticated endpoint cannot grow a table.
+ */
+export function createSiweNonce(): string {
+  const expiresAt = Math.floor((Date.now() + NONCE_TTL_MS) / 1000)
+  const payload = `${randomBytes(16).toString('hex')}${expiresAt.toString(16).padStart(8, '0')}`
+  return `${payload}${signNonce(payload)}`
+}
+
+/**
+ * Check a nonce's signature and expiry; returns when it expires, or null if it is invalid or expired
+ */
+function verifySiweNonce(nonce: string): Date | null {
+  if (!/^[0-9a-f]{72}$/.test(nonce)) return null
+
+  const payload = nonce.slice(0, 40)
+  const expected = Buffer.from(signNonce(payload))
+  const actual = Buffer.from(nonce.slice(40))
+  if (!timingSafeEqual(expected, actual)) return null
+
+  const expiresAt = new Date(parseInt(payload.slice(32), 16) * 1000)
+  return expiresAt.getTime() > Date.now() ? expiresAt : null
+}
+
+/**
+ * Record a nonce as used. Returns false if it is forged, expired or already consumed.
+ */
+async function consumeSiweNonce(nonce: string): Promise<boolean> {
+  const expiresAt = verifySiweNonce(nonce)
+  if (!expiresAt) return false
+
+  // Used nonces only need to be remembered until they would have expired anyway
+  await db.authNonce.deleteMany({ where: { expiresAt: { lt: new Date() } } })
+  const { count } = await db.authNonce.createMany({
+    data: { nonce, expiresAt, consumedAt: new Date() },
+    skipDuplicates: true,
+  })
+  return count === 1
+}
+
+/**
+ * Role given to accounts created automatically for signers (SIWE_SIGNER_ROLE).
+ * Defaults to viewer; `none` turns automatic signer login off. `admin` is not allowed
+ * since admin accounts need two-factor authentication, which wallet sign-in does not ask for.
+ */
+export function getSiweSignerRole(): Role | null {
+  const value = process.env.SIWE_SIGNER_ROLE?.trim().toLowerCase() || 'viewer'
+  if (value === 'none') return null
+  if (value === 'admin') {
+    console.warn('[SIWE] ⚠️ SIWE_SIGNER_ROLE cannot be admin - automatic signer login disabled')
+    return null
+  }
+  if (!isRole(value)) {
+    console.warn(`[SIWE] ⚠️ Ignoring unknown SIWE_SIGNER_ROLE "${value}" - automatic signer login disabled`)
+    return null
+  }
+  return value
+}
+
+/**
+ * Whether the address, or the signer an account was created for, belongs to an offboarded
+ * or removed signer. Such addresses cannot sign in even if an admin linked them to an account.
+ */
+async function belongsToRetiredSigner(address: string, signerId: string | null): Promise<boolean> {
+  const count = await db.signer.count({
+    where: {
+      OR: [
+        ...(signerId ? [{ id: signerId }] : []),
+        { addresses: { some: { address: { equals: address, mode: 'insensitive' } } } },
+      ],
+      AND: [{ OR: [{ deletedAt: { not: null } }, { status: 'offboarded' }] }],
+    },
+  })
+  return count > 0
+}
+
+/**
+ * Disable the accounts Sign-In with Ethereum created for a signer and end their sessions.
+ * The rows are kept so the audit log and Users page still show who they were.
+ */
+export async function disableSignerAccounts(signerId: string) {
+  const users = await db.user.findMany({
+    where: { signerId, disabledAt: null },
+    select: { id: true, username: true, address: true, role: true },
+  })
+  if (users.length === 0) return users
+
+  await db.user.updateMany({
+    where: { id: { in: users.map((user) => user.id) } },
+    data: { disabledAt: new Date() },
+  })
+  for (const user of users) {
+    await revokeUserSessions(user.id)
+  }
+  return users
+}
+
+/**
+ * Verify a signed EIP-4361 message for this host and resolve the account to log in
+ */
+export async function verifySiweLogin(input: {
+  message: string
+  signature: string
+  host: string | null
+}): Promise<SiweLoginResult> {
+  const parsed = parseSiweMessage(input.message)
+  if (!parsed || parsed.version !== '1') {
+    return { error: 'Invalid sign-in message', status: 400 }
+  }
+
+  // The message must be addressed to this deployment, otherwise it could be replayed from a phishing site
+  if (!input.host || parsed.domain !== input.host) {
+    return { error: 'Sign-in message was created for a different domain', status: 400 }
+  }
+
+  const now = Date.now()
+  if (parsed.expirationTime && new Date(parsed.expirationTime).getTime() <= now) {
+    return { error: 'Sign-in message has expired', status: 400 }
+  }
+  if (parsed.notBefore && new Date(parsed.notBefore).getTime() > now) {
+    return { error: 'Sign-in message is not valid yet', status: 400 }
+  }
+
+  let address: string
+  try {
+    address = getAddress(parsed.address)
+    const recovered = verifyMessage(input.message, input.signature)
+    if (recovered !== address) {
+      return { error: 'Signature does not match the address in the message', status: 401 }
+    }
+  } catch {
+    return { error: 'Invalid signature', status: 401 }
+  }
+
+  if (!(await consumeSiweNonce(parsed.nonce))) {
+    return { error: 'Sign-in request expired or was already used. Please try again.', status: 401 }
+  }
+
+  // 1. An account explicitly linked to this address
+  const user = await db.user.findUnique({ where: { address } })
+  if (user) {
+    if (user.disabledAt) {
+      return { error: 'This account has been disabled', status: 403 }
+    }
+    if (user.role === 'admin') {
+      return { error: 'Admin accounts must sign in with a password and two-factor code', status: 403 }
+    }
+    if (await belongsToRetiredSigner(address, user.signerId)) {
+      return { error: 'This address belongs to an offboarded signer', status: 403 }
+    }
+    return { userId: user.id }
+  }
+
+  // 2. A signer who owns this address gets an account with the configured role
+  const role = getSiweSignerRole()
+  const signerAddress = role
+    ? await db.signerAddress.findFirst({
+        where: {
+          address: { equals: address, mode: 'insensitive' },
+          // Offboarded and removed signers no longer get accounts
+          signer: { deletedAt: null, status: { not: 'offboarded' } },
+        },
+        include: { signer: { select: { id: true, name: true } } },
+      })
+    : null
+  if (!role || !signerAddress) {
+    return { error: 'No account is linked to this address', status: 401 }
+  }
+
+  // Accounts are named after the address; an unrelated account may already use that name
+  const nameTaken = await db.user.findUnique({ where: { username: address }, select: { id: true } })
+  if (nameTaken) {
+    return {
+      error: `An account named ${address} already exists. Ask an admin to link this address to it on the Users page.`,
+      status: 409,
+    }
+  }
+
+  let created
+  try {
+    created = await db.user.create({
+      data: {
+        username: address,
+        // Password login is not possible for these accounts
+        passwordHash: await hashPassword(randomBytes(32).toString('hex')),
+        role,
+        address,
+        signerId: signerAddress.signer.id,
+      },
+    })
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error
+    // A concurrent first login for this address created the account first; sign in to that one
+    const existing = await db.user.findUnique({ where: { address }, select: { id: true, disabledAt: true } })
+    if (!existing) {
+      return {
+        error: `An account named ${address} already exists. Ask an admin to link this address to it on the Users page.`,
+        status: 409,
+      }
+    }
+    if (existing.disabledAt) {
+      return { error: 'This account has been disabled', status: 403 }
+    }
+    return { userId: existing.id }
+  }
+  console.log(`[SIWE] ✅ Created ${role} account for signer ${signerAddress.signer.name} (${address})`)
+
+  return { userId: created.id }
+}
@@ -0,0 +1,82 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) message formatting and parsing
+ * Pure helpers shared by the login page and /api/auth/siwe/verify
+ */
+
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:'
+
+export const SIWE_STATEMENT = 'Sign in to the Multisig Registry.'
+
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, '']
+  if (message.statement) {
+    lines.push(message.statement)
+  }
+  lines.push(
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  )
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`)
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`)
+  return lines.join('\n')
+}
+
+/**
+ * Parse the fields we rely on; returns null if the message is not a well-formed EIP-4361 message
+ */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split('\n')
+  if (lines.length < 8 || !lines[0].endsWith(HEADER_SUFFIX)) return null
+
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length)
+  const address = lines[1]
+  if (!domain || !/^0x[a-fA-F0-9]{40}$/.test(address) || lines[2] !== '') return null
+
+  // Optional statement sits between the blank line after the address and the blank line before the fields
+  const fieldsStart = lines.findIndex((line, i) => i > 2 && line.startsWith('URI: '))
+  if (fieldsStart < 0) return null
+  const statement = lines.slice(3, fieldsStart).filter((line) => line !== '').join('\n') || undefined
+
+  const fields = new Map<string, string>()
+  for (const line of lines.slice(fieldsStart)) {
+    const separator = line.indexOf(': ')
+    if (separator > 0) fields.set(line.slice(0, separator), line.slice(separator + 2))
+  }
+
+  const chainId = parseInt(fields.get('Chain ID') || '', 10)
+  const uri = fields.get('URI')
+  const version = fields.get('Version')
+  const nonce = fields.get('Nonce')
+  const issuedAt = fields.get('Issued At')
+  if (!uri || !version || !nonce || !issuedAt || Number.isNaN(chainId)) return null
+
+  return {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: fields.get('Expiration Time'),
+    notBefore: fields.get('Not Before'),
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Wallet snapshot persistence
+ * Stores what a Safe looked like on-chain each time we fetch it, so the UI can
+ * fall back to the last known good state when the Safe API is unavailable
+ */
+
+import { db } from './db'
+import { getSafeInfoOnChain, type SafeInfo } from './safeApi'
+import { processInBatches } from './rate-limiter'
+import { getSafeApiFetchedAt, withSafeApiCacheTracking } from './safe-cache'
+
+// An unchanged Safe gets a new snapshot at most this often
+const SNAPSHOT_INTERVAL_MS = 60 * 60_000
+
+export interface RefreshSnapshotsResult {
+  refreshed: number
+  pruned: number
+  failed: Array<{
+    walletId: string
+    address: string
+    chainId: number
+    error: string
+  }>
+}
+
+/**
+ * Snapshot retention in days, from SNAPSHOT_RETENTION_DAYS (default 180)
+ */
+export function getSnapshotRetentionDays(): number {
+  const days = parseInt(process.env.SNAPSHOT_RETENTION_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : 180
+}
+
+function sameSafeState(
+  snapshot: NonNullable<Awaited<ReturnType<typeof getLatestWalletSnapshot>>>,
+  safeInfo: SafeInfo
+): boolean {
+  return (
+    snapshot.threshold === safeInfo.threshold &&
+    snapshot.nonce === safeInfo.nonce &&
+    snapshot.owners.join(',').toLowerCase() === safeInfo.owners.join(',').toLowerCase() &&
+    snapshot.version === (safeInfo.version ?? null) &&
+    snapshot.masterCopy === (safeInfo.masterCopy ?? null) &&
+    snapshot.guard === (safeInfo.guard ?? null) &&
+    snapshot.fallbackHandler === (safeInfo.fallbackHandler ?? null)
+  )
+}
+
+/**
+ * Record a snapshot of Safe info for a wallet. `fetchedAt` is when the Safe API
+ * returned it, which is earlier than now for cached responses. Nothing is written
+ * when the data is older than the latest snapshot, or unchanged and the latest
+ * snapshot is less than an hour old; the latest snapshot is returned instead.
+ */
+export async function recordWalletSnapshot(walletId: string, safeInfo: SafeInfo, fetchedAt: Date = new Date()) {
+  const latest = await getLatestWalletSnapshot(walletId)
+  if (
+    latest &&
+    (latest.fetchedAt >= fetchedAt ||
+      (sameSafeState(latest, safeInfo) && fetchedAt.getTime() - latest.fetchedAt.getTime() < SNAPSHOT_INTERVAL_MS))
+  ) {
+    return latest
+  }
+
+  return db.walletSnapshot.create({
+    data: {
+      walletId,
+      owners: safeInfo.owners,
+      threshold: safeInfo.threshold,
+      nonce: safeInfo.nonce,
+      version: safeInfo.version ?? null,
+      masterCopy: safeInfo.masterCopy ?? null,
+      guard: safeInfo.guard ?? null,
+      fallbackHandler: safeInfo.fallbackHandler ?? null,
+      fetchedAt,
+    },
+  })
+}
+
+/**
+ * Delete snapshots older than the retention period, keeping each wallet's latest one
+ */
+export async function pruneWalletSnapshots(): Promise<number> {
+  const cutoff = new Date(Date.now() - getSnapshotRetentionDays() * 24 * 60 * 60 * 1000)
+  const latest = await db.walletSnapshot.findMany({
+    distinct: ['walletId'],
+    orderBy: [{ walletId: 'asc' }, { fetchedAt: 'desc' }],
+    select: { id: true },
+  })
+  const { count } = await db.walletSnapshot.deleteMany({
+    where: { fetchedAt: { lt: cutoff }, id: { notIn: latest.map((snapshot) => snapshot.id) } },
+  })
+  return count
+}
+
+/**
+ * Get the most recent snapshot for a wallet, if any
+ */
+export async function getLatestWalletSnapshot(walletId: string) {
+  return db.walletSnapshot.findFirst({
+    where: { walletId },
+    orderBy: { fetchedAt: 'desc' },
+  })
+}
+
+/**
+ * Convert a stored snapshot back into the SafeInfo shape used by the API routes
+ */
+export function snapshotToSafeInfo(
+  address: string,
+  snapshot: NonNullable<Awaited<ReturnType<typeof getLatestWalletSnapshot>>>
+): SafeInfo {
+  return {
+    address,
+    nonce: snapshot.nonce,
+    threshold: snapshot.threshold,
+    owners: snapshot.owners,
+    masterCopy: snapshot.masterCopy ?? undefined,
+    fallbackHandler: snapshot.fallbackHandler ?? undefined,
+    guard: snapshot.guard ?? undefined,
+    version: snapshot.version ?? undefined,
+  }
+}
+
+export type OwnershipWallet = {
+  id: string
+  address: string
+  name: string | null
+  chainId: number
+  owners: string[] // Lowercase
+  threshold: number | null
+  snapshotAt: Date | null
+}
+
+/**
+ * Every wallet with its owners from the latest snapshot, falling back to the
+ * stored signer links (threshold unknown) when no snapshot was taken yet
+ */
+export async function loadOwnershipWallets(): Promise<OwnershipWallet[]> {
+  const wallets = await db.wallet.findMany({
+    include: {
+      walletSigners: { include: { signerAddress: { select: { address: true } } } },
+      snapshots: { orderBy: { fetchedAt: 'desc' }, take: 1 },
+    },
+    orderBy: { name: 'asc' },
+  })
+
+  return wallets.map((wallet) => {
+    const [latest] = wallet.snapshots
+    return {
+      id: wallet.id,
+      address: wallet.address,
+      name: wallet.name,
+      chainId: wallet.chainId,
+      owners: latest
+        ? latest.owners.map((owner) => owner.toLowerCase())
+        : wallet.walletSigners.map((ws) => ws.signerAddress.address.toLowerCase()),
+      threshold: latest ? latest.threshold : null,
+      snapshotAt: latest ? latest.fetchedAt : null,
+    }
+  })
+}
+
+/**
+ * Fetch live Safe info for every wallet in the DB and record a snapshot for each.
+ * Used by the scheduled refresh job.
+ */
+export async function refreshWalletSnapshots(): Promise<RefreshSnapshotsResult> {
+  const wallets = await db.wallet.findMany({
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const result: RefreshSnapshotsResult = { refreshed: 0, pruned: 0, failed: [] }
+
+  await processInBatches(
+    wallets,
+    async (wallet) => {
+      try {
+        await withSafeApiCacheTracking(async () => {
+          // A Safe at the same address on another network must never be stored as this wallet's state
+          const safeInfo = await getSafeInfoOnChain(wallet.address, wallet.chainId)
+          await recordWalletSnapshot(wallet.id, safeInfo, getSafeApiFetchedAt())
+        })
+        result.refreshed++
+      } catch (error) {
+        result.failed.push({
+          walletId: wallet.id,
+          address: wallet.address,
+          chainId: wallet.chainId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    },
+    3,
+    500
+  )
+
+  result.pruned = await pruneWalletSnapshots()
+
+  return result
+}
@@ -0,0 +1,23 @@
+/**
+ * Tag color palette shared by the tag catalog API and the WalletTag badge
+ */
+
+export const TAG_COLORS = ['gray', 'blue', 'green', 'red', 'purple', 'yellow', 'indigo', 'pink'] as const
+
+export type TagColor = (typeof TAG_COLORS)[number]
+
+// Full class names so Tailwind keeps them in the build
+export const TAG_COLOR_CLASSES: Record<TagColor, { bg: string; text: string }> = {
+  gray: { bg: 'bg-gray-100', text: 'text-gray-800' },
+  blue: { bg: 'bg-blue-100', text: 'text-blue-800' },
+  green: { bg: 'bg-green-100', text: 'text-green-800' },
+  red: { bg: 'bg-red-100', text: 'text-red-800' },
+  purple: { bg: 'bg-purple-100', text: 'text-purple-800' },
+  yellow: { bg: 'bg-yellow-100', text: 'text-yellow-800' },
+  indigo: { bg: 'bg-indigo-100', text: 'text-indigo-800' },
+  pink: { bg: 'bg-pink-100', text: 'text-pink-800' },
+}
+
+export function isTagColor(value: string): value is TagColor {
+  return (TAG_COLORS as readonly string[]).includes(value)
+}
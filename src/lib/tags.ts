@@ -0,0 +1,121 @@
+/**
+ * Tag catalog helpers: reading wallet tags and replacing a wallet's tag set by name
+ */
+
+import type { Prisma, Tag } from '@prisma/client'
+import { db } from './db'
+import { formatTags, parseTags } from './utils'
+import type { TagSummary } from '@/types'
+
+// Include for wallet queries that need their tags
+export const walletTagsInclude = {
+  walletTags: {
+    include: { tag: true },
+    orderBy: { tag: { name: 'asc' } },
+  },
+} satisfies Prisma.WalletInclude
+
+export function toTagSummaries(walletTags: Array<{ tag: Tag }>): TagSummary[] {
+  return walletTags.map(({ tag }) => ({ id: tag.id, name: tag.name, color: tag.color }))
+}
+
+/**
+ * Replace the wallet's join rows with `tags` for API responses
+ */
+export function serializeWalletTags<T extends { walletTags: Array<{ tag: Tag }> }>(
+  wallet: T
+): Omit<T, 'walletTags'> & { tags: TagSummary[] } {
+  const { walletTags, ...rest } = wallet
+  return { ...rest, tags: toTagSummaries(walletTags) }
+}
+
+/**
+ * Wallet row with its tags as a comma-separated `tag` string, the form kept in version history
+ */
+export function toVersionedWallet<T extends { walletTags: Array<{ tag: Tag }> }>(wallet: T) {
+  return { ...wallet, tag: formatTags(wallet.walletTags.map(({ tag }) => tag.name)) }
+}
+
+/**
+ * Trim, drop empties and de-duplicate case-insensitively, keeping the first spelling
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const raw of names) {
+    const name = raw.trim()
+    if (!name || seen.has(name.toLowerCase())) continue
+    seen.add(name.toLowerCase())
+    result.push(name)
+  }
+  return result
+}
+
+/**
+ * Names that match no catalog tag (case-insensitively). Only callers with `tag:manage`
+ * may pass such names to setWalletTags, since that adds them to the catalog.
+ */
+export async function findUnknownTagNames(names: string[]): Promise<string[]> {
+  const wanted = normalizeTagNames(names)
+  if (wanted.length === 0) return []
+
+  const existing = await db.tag.findMany({
+    where: { name: { in: wanted, mode: 'insensitive' } },
+    select: { name: true },
+  })
+  const known = new Set(existing.map((tag) => tag.name.toLowerCase()))
+  return wanted.filter((name) => !known.has(name.toLowerCase()))
+}
+
+/**
+ * Set a wallet's tags by name. Names match catalog tags case-insensitively;
+ * unknown names are added to the catalog with the default color, so check them
+ * with findUnknownTagNames first unless the caller has `tag:manage`.
+ */
+export async function setWalletTags(walletId: string, names: string[]): Promise<void> {
+  const wanted = normalizeTagNames(names)
+
+  const existing = await db.tag.findMany({
+    where: { name: { in: wanted, mode: 'insensitive' } },
+  })
+  const byName = new Map(existing.map((tag) => [tag.name.toLowerCase(), tag]))
+
+  const tagIds: string[] = []
+  for (const name of wanted) {
+    const tag =
+      byName.get(name.toLowerCase()) ??
+      (await db.tag.upsert({ where: { name }, create: { name }, update: {} }))
+    tagIds.push(tag.id)
+  }
+
+  await db.$transaction([
+    db.walletTag.deleteMany({ where: { walletId, tagId: { notIn: tagIds } } }),
+    db.walletTag.createMany({
+      data: tagIds.map((tagId) => ({ walletId, tagId })),
+      skipDuplicates: true,
+    }),
+  ])
+}
+
+/**
+ * Apply a rename (or merge) to wallet version history so restoring an old
+ * version brings back the tag under its current name
+ */
+export async function renameTagInVersions(oldName: string, newName: string): Promise<void> {
+  // Tag names match case-insensitively, which a JSON string filter cannot do, so matching happens here
+  const versions = await db.entityVersion.findMany({
+    where: { entityType: 'wallet' },
+    select: { id: true, data: true },
+  })
+  for (const version of versions) {
+    const data = version.data as Record<string, unknown>
+    if (typeof data.tag !== 'string') continue
+    const tags = parseTags(data.tag)
+    if (!tags.some((name) => name.toLowerCase() === oldName.toLowerCase())) continue
+    const names = tags.map((name) => (name.toLowerCase() === oldName.toLowerCase() ? newName : name))
+    await db.entityVersion.update({
+      where: { id: version.id },
+      data: { data: { ...data, tag: formatTags(normalizeTagNames(names)) } },
+    })
+  }
+}
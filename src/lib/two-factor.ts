@@ -0,0 +1,112 @@
+/**
+ * Second-factor checks for password login and 2FA management
+ */
+
+import bcrypt from 'bcryptjs'
+import QRCode from 'qrcode'
+import { db } from './db'
+import { verifyTotp, generateRecoveryCodes, generateTotpSecret, buildOtpAuthUri } from './totp'
+
+interface TwoFactorUser {
+  id: string
+  totpSecret: string | null
+  totpEnabledAt: Date | null
+  totpLastUsedStep: number | null
+  totpRecoveryCodes: string[]
+}
+
+/**
+ * Accept either a current TOTP code or an unused recovery code. Both are single use.
+ */
+export async function verifySecondFactor(user: TwoFactorUser, code: string): Promise<boolean> {
+  if (!user.totpEnabledAt || !user.totpSecret) return false
+
+  const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep)
+  if (step !== null) {
+    // Conditional update so two concurrent logins cannot both use the same code
+    const { count } = await db.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    })
+    return count === 1
+  }
+
+  const normalized = code.trim().toLowerCase()
+  for (const hash of user.totpRecoveryCodes) {
+    if (await bcrypt.compare(normalized, hash)) {
+      // Only write back if the stored codes are still the ones we read, so a code
+      // accepted by a concurrent login is neither reused nor restored
+      const { count } = await db.user.updateMany({
+        where: { id: user.id, totpRecoveryCodes: { equals: user.totpRecoveryCodes } },
+        data: { totpRecoveryCodes: user.totpRecoveryCodes.filter((h) => h !== hash) },
+      })
+      return count === 1
+    }
+  }
+
+  return false
+}
+
+export interface TwoFactorEnrolment {
+  secret: string
+  otpauthUri: string
+  qrCodeDataUrl: string
+}
+
+/**
+ * Store a pending secret and return it with a QR code to scan. With `keepPending`, a secret
+ * already pending is reused so an authenticator that scanned it keeps working.
+ */
+export async function startEnrolment(
+  user: { id: string; username: string; totpSecret: string | null },
+  keepPending = false
+): Promise<TwoFactorEnrolment> {
+  let secret = keepPending ? user.totpSecret : null
+  if (!secret) {
+    secret = generateTotpSecret()
+    await db.user.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    })
+  }
+
+  const otpauthUri = buildOtpAuthUri(user.username, secret)
+  return { secret, otpauthUri, qrCodeDataUrl: await QRCode.toDataURL(otpauthUri) }
+}
+
+/**
+ * Finish enrolment with a code from the pending secret. Returns the recovery codes (shown once),
+ * or null if the code is wrong or the pending secret changed in the meantime.
+ */
+export async function completeEnrolment(
+  user: { id: string; totpSecret: string | null },
+  code: string
+): Promise<string[] | null> {
+  if (!user.totpSecret) return null
+
+  const step = verifyTotp(user.totpSecret, code)
+  if (step === null) return null
+
+  const { codes, hashes } = await createRecoveryCodes()
+  const { count } = await db.user.updateMany({
+    where: { id: user.id, totpEnabledAt: null, totpSecret: user.totpSecret },
+    data: {
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+      totpRecoveryCodes: hashes,
+    },
+  })
+  return count === 1 ? codes : null
+}
+
+/**
+ * Generate fresh recovery codes; returns the plain codes (shown once) and their hashes
+ */
+export async function createRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const codes = generateRecoveryCodes()
+  const hashes = await Promise.all(codes.map((code) => bcrypt.hash(code, 10)))
+  return { codes, hashes }
+}
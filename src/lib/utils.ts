@@ -65,7 +65,8 @@ export function formatAddress(address: string, startChars = 6, endChars = 4): st
 }
 
 /**
- * Extract account type from a name string and return both cleaned name and type
+ * Extract account type from a name string and return both cleaned name and type.
+ * Only used for display labels; custody decisions use the address type catalog.
  * Examples: 
  *   "Timo_ledger" -> { name: "Timo", type: "Ledger" }
  *   "Mihailo_hot_wallet" -> { name: "Mihailo", type: "Hot Wallet" }
@@ -248,3 +249,16 @@ export function generateAddressLabels(
   
   return result
 }
+
+/**
+ * Trigger a browser download of a JSON document (client-side only)
+ */
+export function downloadJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,83 @@
+/**
+ * Version history for wallets, signers and signer addresses.
+ * Every change to a versioned field stores a full copy of those fields so any
+ * earlier state can be restored.
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import type { EntityVersionEntry } from '@/types'
+
+export type VersionedEntityType = 'wallet' | 'signer' | 'signer_address'
+
+export type VersionData = EntityVersionEntry['data']
+
+// Fields captured in each version and written back on restore
+export const VERSIONED_FIELDS: Record<VersionedEntityType, string[]> = {
+  wallet: ['name', 'chainId', 'tag'],
+  signer: ['name', 'department'],
+  signer_address: ['name', 'type', 'addressType', 'serialRef', 'storageLocation', 'acquiredAt'],
+}
+
+function pickVersionData(entityType: VersionedEntityType, row: Record<string, unknown>): VersionData {
+  const data: VersionData = {}
+  for (const field of VERSIONED_FIELDS[entityType]) {
+    const value = row[field]
+    data[field] = typeof value === 'string' || typeof value === 'number' ? value : null
+  }
+  return data
+}
+
+/**
+ * Store the row's current values as a new version, unless they match the latest one.
+ * Failures are logged and do not fail the request.
+ */
+export async function recordVersion(
+  entityType: VersionedEntityType,
+  row: { id: string },
+  actor: string | null
+): Promise<void> {
+  try {
+    const data = pickVersionData(entityType, row as Record<string, unknown>)
+    const latest = await db.entityVersion.findFirst({
+      where: { entityType, entityId: row.id },
+      orderBy: { version: 'desc' },
+    })
+    if (latest && JSON.stringify(latest.data) === JSON.stringify(data)) return
+
+    await db.entityVersion.create({
+      data: {
+        entityType,
+        entityId: row.id,
+        version: (latest?.version ?? 0) + 1,
+        data: data as Prisma.InputJsonObject,
+        actor,
+      },
+    })
+  } catch (error) {
+    console.error(`[Versions] ❌ Failed to record version of ${entityType} ${row.id}:`, error)
+  }
+}
+
+export async function listVersions(entityType: VersionedEntityType, entityId: string): Promise<EntityVersionEntry[]> {
+  const versions = await db.entityVersion.findMany({
+    where: { entityType, entityId },
+    orderBy: { version: 'desc' },
+  })
+  return versions.map((v) => ({
+    id: v.id,
+    version: v.version,
+    data: v.data as VersionData,
+    actor: v.actor,
+    createdAt: v.createdAt.toISOString(),
+  }))
+}
+
+/**
+ * A stored version of this entity, or null if the id does not belong to it
+ */
+export async function findVersion(entityType: VersionedEntityType, entityId: string, versionId: string) {
+  const version = await db.entityVersion.findUnique({ where: { id: versionId } })
+  if (!version || version.entityType !== entityType || version.entityId !== entityId) return null
+  return { ...version, data: version.data as VersionData }
+}
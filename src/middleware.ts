@@ -1,26 +1,34 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { SESSION_COOKIE_NAME, resolveSessionCookie } from '@/lib/auth'
+import { getAccessMode, isAllowlistedPath } from '@/lib/access-mode'
 
-export function middleware(request: NextRequest) {
-  const isAuthPage = request.nextUrl.pathname.startsWith('/login')
-  const isApiAuth = request.nextUrl.pathname.startsWith('/api/auth')
-  
-  // Allow public access to view pages
-  const isViewPage = request.nextUrl.pathname.startsWith('/wallets') || 
-                    request.nextUrl.pathname.startsWith('/signers') ||
-                    request.nextUrl.pathname === '/'
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
 
-  // Allow access to login page, auth API, and view pages
-  if (isAuthPage || isApiAuth || isViewPage) {
+  // Public mode: pages and GET APIs are open, mutations are checked in the API routes themselves
+  if (getAccessMode() === 'public' || isAllowlistedPath(pathname)) {
     return NextResponse.next()
   }
 
-  // Only protect admin API routes (POST, PUT, DELETE)
-  // GET requests are handled in API routes themselves
+  // Private mode: everything else needs a live (not revoked or expired) session
+  const cookie = request.cookies.get(SESSION_COOKIE_NAME)
+  const session = cookie ? await resolveSessionCookie(cookie.value) : null
+  if (session) {
+    return NextResponse.next()
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
 
-  return NextResponse.next()
+  const loginUrl = new URL('/login', request.url)
+  loginUrl.searchParams.set('next', `${pathname}${search}`)
+  return NextResponse.redirect(loginUrl)
 }
 
 export const config = {
+  // Node.js runtime so the session can be checked against the database
+  runtime: 'nodejs',
   matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
 }
@@ -1,9 +1,11 @@
+import type { TxBuilderBatch } from '@/lib/safe-tx-builder'
+
 export interface WalletWithDetails {
   id: string
   address: string
   name: string | null
   chainId: number
-  tag: string | null
+  tags: TagSummary[]
   threshold: number
   nonce: number
   totalSigners: number
@@ -11,6 +13,79 @@ export interface WalletWithDetails {
   createdAt: Date
   updatedAt: Date
   _apiError?: string // Internal flag for API errors (not exposed to client)
+  _snapshotAt?: Date // Set when threshold/owners come from the last stored snapshot instead of live data
+}
+
+export interface TagSummary {
+  id: string
+  name: string
+  color: string // Key of TAG_COLORS in src/lib/tag-colors.ts
+}
+
+export interface TagWithUsage extends TagSummary {
+  description: string | null
+  walletCount: number
+}
+
+export interface DepartmentSummary {
+  id: string
+  name: string
+  description: string | null
+  signerCount: number
+  safeCount: number // Safes with at least one owner from the department
+  soleControlCount: number // Safes whose threshold the department can meet alone
+}
+
+export interface DepartmentMergeSuggestion {
+  source: { id: string; name: string; signerCount: number }
+  target: { id: string; name: string; signerCount: number }
+  reason: string
+}
+
+export interface DepartmentSafe {
+  walletId: string
+  address: string
+  name: string | null
+  chainId: number
+  threshold: number | null // null until the wallet has a snapshot
+  ownerCount: number
+  departmentOwners: Array<{ address: string; signerId: string; signerName: string }>
+  canMeetThreshold: boolean | null
+  snapshotAt: Date | null
+}
+
+export interface DepartmentReport {
+  id: string
+  name: string
+  description: string | null
+  members: Array<{
+    id: string
+    name: string
+    status: string
+    addresses: Array<{ id: string; address: string; name: string | null; type: string | null }>
+  }>
+  safes: DepartmentSafe[]
+}
+
+export interface AddressTypeSummary {
+  id: string
+  name: string
+  custody: string // Key of CUSTODY_KINDS in src/lib/custody.ts
+  description: string | null
+  addressCount: number
+}
+
+export interface HotWalletSafe {
+  walletId: string
+  address: string
+  name: string | null
+  chainId: number
+  threshold: number | null // null until the wallet has a snapshot
+  ownerCount: number
+  hotOwners: Array<{ address: string; signerId: string; signerName: string; addressType: string }>
+  unclassifiedOwnerCount: number // Owners with no address type, which could be hot wallets too
+  canMeetThreshold: boolean | null
+  snapshotAt: Date | null
 }
 
 export interface SignerWithAddress {
@@ -18,12 +93,19 @@ export interface SignerWithAddress {
   signerName: string | null
   signerId: string | null
   department: string | null
+  signerStatus: string | null
+  signerStatusSince: Date | null
 }
 
 export interface SignerWithWallets {
   id: string
   name: string
-  department: string | null
+  departmentId: string | null
+  department: string | null // Department name
+  status: string // Key of SIGNER_STATUSES in src/lib/signer-status.ts
+  statusSince: Date
+  statusUntil: Date | null
+  deletedAt: Date | null
   addresses: SignerAddress[]
   wallets: WalletBasicInfo[]
   createdAt: Date
@@ -35,6 +117,12 @@ export interface SignerAddress {
   address: string
   name: string | null
   type: string | null
+  addressTypeId: string | null
+  addressType: { id: string; name: string; custody: string } | null
+  // Custody details, only returned to callers with signer:manage
+  serialRef?: string | null
+  storageLocation?: string | null
+  acquiredAt?: Date | null
   createdAt: Date
 }
 
@@ -43,7 +131,238 @@ export interface WalletBasicInfo {
   address: string
   name: string | null
   chainId: number
-  tag: string | null
+  tags: TagSummary[]
   threshold: number
   totalSigners: number
 }
+
+export interface DriftOwner {
+  address: string
+  signerAddressId: string | null
+  signerId: string | null
+  signerName: string | null
+  signerStatus: string | null // Key of SIGNER_STATUSES in src/lib/signer-status.ts
+  signerDeletedAt: Date | null // Removed signers are reported but never linked by reconcile
+}
+
+export interface WalletDrift {
+  walletId: string
+  address: string
+  name: string | null
+  chainId: number
+  snapshotAt: Date | null // When the on-chain data used for the comparison was fetched
+  missingLinks: DriftOwner[] // On-chain owners with no WalletSigner link
+  staleLinks: DriftOwner[] // WalletSigner links whose address is no longer an owner
+  thresholdChange: { previous: number; current: number } | null
+  hasDrift: boolean
+}
+
+export interface OwnerChangeStep {
+  method: 'removeOwner' | 'swapOwner'
+  args: Record<string, string | number>
+  data: string
+}
+
+export interface OwnerChangeSafePlan {
+  walletId: string | null // Set when the Safe is tracked in our DB
+  address: string
+  name: string | null
+  chainId: number
+  owners: string[] // Owners the steps were built against, in the Safe's linked-list order
+  threshold: number
+  nonce: number // Safe nonce when the plan was built; rebuild if it has moved on
+  newThreshold: number
+  affectedOwners: string[] // Signer addresses that are owners of this Safe
+  steps: OwnerChangeStep[]
+  blockedReason: string | null
+  batch: TxBuilderBatch | null
+}
+
+export interface OwnerChangeChainPlan {
+  chainId: number
+  safes: OwnerChangeSafePlan[]
+}
+
+export interface OwnerChangePlan {
+  signerId: string
+  signerName: string
+  addresses: string[]
+  chains: OwnerChangeChainPlan[]
+  failedChains: FailedChainLookup[] // Chains that could not be searched; the plan may be incomplete
+}
+
+export interface FailedChainLookup {
+  address: string
+  chainId: number
+  error: string
+}
+
+export interface SkippedLinkMove {
+  walletId: string
+  address: string
+  name: string | null
+  chainId: number
+  reason: string // Why the link was left on the old address
+}
+
+export interface QueuedTransactionOwner {
+  address: string
+  signerId: string | null
+  signerName: string | null
+  signed: boolean
+  signedAt: string | null
+}
+
+export interface QueuedTransaction {
+  safeTxHash: string
+  nonce: number
+  to: string
+  value: string
+  method: string | null
+  operation: number
+  submissionDate: string
+  confirmationsRequired: number
+  confirmationsCollected: number
+  owners: QueuedTransactionOwner[]
+}
+
+export interface WalletQueue {
+  walletId: string
+  nonce: number
+  threshold: number
+  transactions: QueuedTransaction[]
+}
+
+export interface SignerPendingTransaction {
+  safeTxHash: string
+  walletId: string | null // Set when the Safe is tracked in our DB
+  safeAddress: string
+  safeName: string | null
+  chainId: number
+  nonce: number
+  to: string
+  value: string
+  method: string | null
+  submissionDate: string
+  confirmationsRequired: number
+  confirmationsCollected: number
+  signerAddresses: string[] // This signer's owner addresses on the Safe (none of them has signed)
+  blockedOnSigner: boolean // The other owners who have not signed cannot reach the threshold without this signer
+}
+
+export interface SignerPendingSignatures {
+  signerId: string
+  signerName: string
+  transactions: SignerPendingTransaction[]
+  errors: Array<{ chainId: number; safeAddress: string | null; error: string }> // safeAddress is null when the chain lookup itself failed
+}
+
+export interface WalletHistoryConfirmation {
+  address: string
+  signerId: string | null
+  signerName: string | null
+  confirmedAt: string
+}
+
+export interface WalletHistoryTransaction {
+  txType: 'MULTISIG_TRANSACTION' | 'MODULE_TRANSACTION' | 'ETHEREUM_TRANSACTION'
+  txHash: string | null
+  safeTxHash: string | null
+  nonce: number | null
+  to: string | null
+  value: string | null
+  method: string | null
+  executionDate: string | null
+  isSuccessful: boolean | null
+  confirmations: WalletHistoryConfirmation[]
+}
+
+export interface WalletHistory {
+  walletId: string
+  count: number
+  offset: number
+  hasMore: boolean
+  transactions: WalletHistoryTransaction[]
+}
+
+export interface SignerParticipation {
+  signerId: string
+  signerName: string
+  department: string | null
+  confirmations30d: number
+  confirmations90d: number
+  lastConfirmedAt: Date | null
+  dormant: boolean // No confirmation within the dormancy window (or never)
+}
+
+export interface ParticipationReport {
+  generatedAt: Date
+  dormantDays: number
+  lastSyncedAt: Date | null
+  backfillPendingWallets: number // Wallets whose older confirmations are not all stored yet
+  signers: SignerParticipation[]
+}
+
+export interface ChainLookupStatus {
+  status: 'ok' | 'empty' | 'error' | 'skipped'
+  message?: string // Error message or skip reason
+}
+
+export interface LiveWalletsResponse {
+  wallets: WalletBasicInfo[]
+  chains: Record<number, ChainLookupStatus> // Merged across all of the signer's addresses
+}
+
+export interface ActiveSession {
+  id: string
+  userId: string
+  username: string
+  role: string
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+  ip: string | null
+  userAgent: string | null
+  current: boolean // The session making the request
+}
+
+export interface EntityVersionEntry {
+  id: string
+  version: number
+  data: Record<string, string | number | null> // Versioned fields of the row at that point
+  actor: string | null
+  createdAt: string
+}
+
+export interface AuditEventEntry {
+  id: string
+  actor: string
+  action: string
+  entityType: string
+  entityId: string
+  before: unknown
+  after: unknown
+  ip: string | null
+  createdAt: string
+}
+
+export interface LoginLockout {
+  id: string
+  scope: 'username' | 'ip'
+  key: string // Username (lowercased) or client IP
+  failures: number
+  lastFailedAt: string
+  lockedUntil: string
+}
+
+export interface UserAccount {
+  id: string
+  username: string
+  role: string
+  address: string | null // Linked for Sign-In with Ethereum
+  signerId: string | null // Set for accounts created automatically from a signer's address
+  disabledAt: string | null
+  twoFactorEnabled: boolean
+  createdAt: string
+  activeSessions: number
+}